@@ -0,0 +1,35 @@
+/**
+ * Programmatic API of ip-navigator-cli.
+ *
+ * Every function returns typed data (the same records the CLI prints with
+ * --format json) and throws an IPNavError subclass on invalid input; nothing
+ * here prints or exits the process.
+ */
+
+export * from "@/lib/api/validation.js";
+export * from "@/lib/api/conversion.js";
+export * from "@/lib/api/subnet.js";
+export * from "@/lib/api/operation.js";
+export * from "@/lib/api/set.js";
+export * from "@/lib/api/pool.js";
+export * from "@/lib/api/acl.js";
+export * from "@/lib/api/map.js";
+export * from "@/lib/api/random.js";
+
+export {
+  IPNavError,
+  InvalidInputError,
+  UsageError,
+} from "@/lib/utils/errors.js";
+
+export type {
+  AddressNotation,
+  IPVersion,
+  ParseOptions,
+} from "@/lib/utils/address.js";
+export type { BlockReport, RangeRelation } from "@/lib/utils/cidr.js";
+export type {
+  AddressType,
+  SpecialPurposeCategory,
+  SpecialPurposeEntry,
+} from "@/lib/utils/registry.js";
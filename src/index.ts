@@ -1,4 +1,5 @@
 #!/usr/bin/env node
 import program from "@/lib/program.js";
+import { reportError } from "@/lib/utils/output.js";
 
-program.parse();
+program.parseAsync().catch((error) => reportError(error, "Unexpected error"));
@@ -0,0 +1,422 @@
+/**
+ * ACL API: firewall rule blocks for iptables, nftables, Cisco IOS, Junos,
+ * AWS security groups and pf, built from lists of CIDRs, ranges and
+ * addresses. Ranges are decomposed into prefixes; the merge pass first
+ * collapses the whole list into its minimal prefixes.
+ */
+
+import {
+  IPVersion,
+  ParseOptions,
+  bitLength,
+  formatIP,
+  fromBigInt,
+  prefixToWildcard,
+} from "@/lib/utils/address.js";
+
+import {
+  CIDRBlock,
+  aggregateRanges,
+  formatCIDR,
+  parseAddressSpec,
+  rangeToBlocks,
+} from "@/lib/utils/cidr.js";
+
+import { InvalidInputError } from "@/lib/utils/errors.js";
+
+export const ACL_TARGETS = [
+  "iptables",
+  "nftables",
+  "cisco",
+  "juniper",
+  "aws-sg",
+  "pf",
+] as const;
+
+export type AclTarget = (typeof ACL_TARGETS)[number];
+
+export const ACL_ACTIONS = ["permit", "deny"] as const;
+
+export type AclAction = (typeof ACL_ACTIONS)[number];
+
+export const ACL_DIRECTIONS = ["in", "out"] as const;
+
+export type AclDirection = (typeof ACL_DIRECTIONS)[number];
+
+export const ACL_PROTOCOLS = ["any", "tcp", "udp", "icmp"] as const;
+
+export type AclProtocol = (typeof ACL_PROTOCOLS)[number];
+
+export interface AclOptions extends ParseOptions {
+  target: AclTarget;
+  /** Defaults to permit */
+  action?: AclAction;
+  /** "in" (default) matches source addresses, "out" destination addresses */
+  direction?: AclDirection;
+  /** Defaults to any */
+  protocol?: AclProtocol;
+  /** Destination port or "low-high" range (tcp and udp only) */
+  port?: string;
+  /** Access list, filter, table or security group rule name */
+  name?: string;
+  /** Merge overlapping and adjacent entries into minimal prefixes first */
+  merge?: boolean;
+}
+
+export interface AclPrefix {
+  cidr: string;
+  version: IPVersion;
+  /** Cisco wildcard mask; null for IPv6, whose ACLs take prefixes */
+  wildcard: string | null;
+}
+
+export interface AclReport {
+  target: AclTarget;
+  prefixes: AclPrefix[];
+  /** The rule block, ready to paste */
+  rules: string;
+}
+
+interface RuleContext {
+  action: AclAction;
+  direction: AclDirection;
+  protocol: AclProtocol;
+  ports: [number, number] | null;
+  name: string;
+}
+
+const NAME_PATTERN = /^[A-Za-z][\w-]*$/;
+
+/**
+ * Parses "443" or "1000-2000" into an inclusive port range
+ */
+function parsePorts(port: string): [number, number] {
+  const match = port.trim().match(/^(\d+)(?:-(\d+))?$/);
+  const low = Number(match?.[1]);
+  const high = Number(match?.[2] ?? match?.[1]);
+  if (match === null || low < 1 || high > 65535 || low > high) {
+    throw new InvalidInputError(
+      `Invalid port: ${port}`,
+      "Expected a port (1-65535) or a range such as 1000-2000",
+    );
+  }
+  return [low, high];
+}
+
+/**
+ * Wildcard mask of a block, e.g. 0.0.0.255 for a /24
+ */
+function wildcardOf(block: CIDRBlock): string {
+  const { version } = block.network;
+  return formatIP(fromBigInt(prefixToWildcard(block.prefix, version), version));
+}
+
+/**
+ * Prefixes of each IP version, IPv4 first
+ */
+function byVersion(blocks: CIDRBlock[]): [IPVersion, CIDRBlock[]][] {
+  return ([4, 6] as const)
+    .map((version): [IPVersion, CIDRBlock[]] => [
+      version,
+      blocks.filter((block) => block.network.version === version),
+    ])
+    .filter(([, group]) => group.length > 0);
+}
+
+/**
+ * iptables / ip6tables commands, one per prefix
+ */
+function iptablesRules(blocks: CIDRBlock[], ctx: RuleContext): string[] {
+  const chain = ctx.direction === "in" ? "INPUT" : "OUTPUT";
+  const match = ctx.direction === "in" ? "-s" : "-d";
+  const target = ctx.action === "permit" ? "ACCEPT" : "DROP";
+  const port =
+    ctx.ports === null
+      ? ""
+      : ` --dport ${ctx.ports[0] === ctx.ports[1] ? ctx.ports[0] : ctx.ports.join(":")}`;
+
+  return blocks.map((block) => {
+    const v6 = block.network.version === 6;
+    const protocol =
+      ctx.protocol === "any"
+        ? ""
+        : ` -p ${ctx.protocol === "icmp" && v6 ? "ipv6-icmp" : ctx.protocol}`;
+    return `${v6 ? "ip6tables" : "iptables"} -A ${chain}${protocol} ${match} ${formatCIDR(block)}${port} -j ${target}`;
+  });
+}
+
+/**
+ * An nftables table with one base chain matching anonymous sets
+ */
+function nftablesRules(blocks: CIDRBlock[], ctx: RuleContext): string[] {
+  const hook = ctx.direction === "in" ? "input" : "output";
+  const field = ctx.direction === "in" ? "saddr" : "daddr";
+  const verdict = ctx.action === "permit" ? "accept" : "drop";
+
+  const rules = byVersion(blocks).map(([version, group]) => {
+    const family = version === 4 ? "ip" : "ip6";
+    const set = group.map((block) => formatCIDR(block)).join(", ");
+    let protocol = "";
+    if (ctx.ports !== null) {
+      const [low, high] = ctx.ports;
+      protocol = ` ${ctx.protocol} dport ${low === high ? low : `${low}-${high}`}`;
+    } else if (ctx.protocol !== "any") {
+      protocol = ` meta l4proto ${ctx.protocol === "icmp" && version === 6 ? "ipv6-icmp" : ctx.protocol}`;
+    }
+    return `    ${family} ${field} { ${set} }${protocol} ${verdict}`;
+  });
+
+  return [
+    `table inet ${ctx.name} {`,
+    `  chain ${hook} {`,
+    `    type filter hook ${hook} priority 0; policy accept;`,
+    ...rules,
+    `  }`,
+    `}`,
+  ];
+}
+
+/**
+ * Cisco IOS extended access lists: wildcard masks for IPv4, prefixes for
+ * IPv6. A deny list ends by permitting everything else, since the list's
+ * implicit deny would otherwise drop all traffic on the interface.
+ */
+function ciscoRules(blocks: CIDRBlock[], ctx: RuleContext): string[] {
+  const port =
+    ctx.ports === null
+      ? ""
+      : ctx.ports[0] === ctx.ports[1]
+        ? ` eq ${ctx.ports[0]}`
+        : ` range ${ctx.ports[0]} ${ctx.ports[1]}`;
+
+  const lines: string[] = [];
+  for (const [version, group] of byVersion(blocks)) {
+    if (lines.length > 0) {
+      lines.push("!");
+    }
+    lines.push(
+      version === 4
+        ? `ip access-list extended ${ctx.name}`
+        : `ipv6 access-list ${ctx.name}-v6`,
+    );
+
+    const protocol =
+      ctx.protocol === "any" ? (version === 4 ? "ip" : "ipv6") : ctx.protocol;
+    for (const block of group) {
+      const spec =
+        block.prefix === 0
+          ? "any"
+          : block.prefix === bitLength(version)
+            ? `host ${formatIP(block.network)}`
+            : version === 4
+              ? `${formatIP(block.network)} ${wildcardOf(block)}`
+              : formatCIDR(block);
+      const [source, destination] =
+        ctx.direction === "in" ? [spec, "any"] : ["any", spec];
+      lines.push(` ${ctx.action} ${protocol} ${source} ${destination}${port}`);
+    }
+    if (ctx.action === "deny") {
+      lines.push(` permit ${version === 4 ? "ip" : "ipv6"} any any`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * A Junos firewall filter per address family. A deny list ends with a term
+ * accepting everything else, as filters discard unmatched traffic.
+ */
+function juniperRules(blocks: CIDRBlock[], ctx: RuleContext): string[] {
+  const field =
+    ctx.direction === "in" ? "source-address" : "destination-address";
+  const verdict = ctx.action === "permit" ? "accept" : "discard";
+
+  const families = byVersion(blocks).flatMap(([version, group]) => {
+    const match: string[] = [];
+    if (ctx.protocol !== "any") {
+      const keyword = version === 4 ? "protocol" : "next-header";
+      const protocol =
+        ctx.protocol === "icmp" && version === 6 ? "icmp6" : ctx.protocol;
+      match.push(`${keyword} ${protocol};`);
+    }
+    if (ctx.ports !== null) {
+      const [low, high] = ctx.ports;
+      match.push(`destination-port ${low === high ? low : `${low}-${high}`};`);
+    }
+
+    return [
+      `    family ${version === 4 ? "inet" : "inet6"} {`,
+      `        filter ${ctx.name} {`,
+      `            term ${ctx.action} {`,
+      `                from {`,
+      `                    ${field} {`,
+      ...group.map((block) => `                        ${formatCIDR(block)};`),
+      `                    }`,
+      ...match.map((line) => `                    ${line}`),
+      `                }`,
+      `                then ${verdict};`,
+      `            }`,
+      ...(ctx.action === "deny"
+        ? [
+            `            term default {`,
+            `                then accept;`,
+            `            }`,
+          ]
+        : []),
+      `        }`,
+      `    }`,
+    ];
+  });
+
+  return ["firewall {", ...families, "}"];
+}
+
+/**
+ * IpPermissions JSON for aws ec2 authorize-security-group-ingress/egress
+ */
+function awsRules(blocks: CIDRBlock[], ctx: RuleContext): string[] {
+  if (ctx.action === "deny") {
+    throw new InvalidInputError(
+      "AWS security groups only have allow rules",
+      "Use a network ACL to deny traffic",
+    );
+  }
+
+  const permissions = byVersion(blocks).map(([version, group]) => {
+    const protocol =
+      ctx.protocol === "any"
+        ? "-1"
+        : ctx.protocol === "icmp" && version === 6
+          ? "icmpv6"
+          : ctx.protocol;
+    const ports =
+      ctx.ports !== null
+        ? { FromPort: ctx.ports[0], ToPort: ctx.ports[1] }
+        : ctx.protocol === "icmp"
+          ? { FromPort: -1, ToPort: -1 }
+          : {};
+    const ranges =
+      version === 4
+        ? {
+            IpRanges: group.map((block) => ({
+              CidrIp: formatCIDR(block),
+              Description: ctx.name,
+            })),
+          }
+        : {
+            Ipv6Ranges: group.map((block) => ({
+              CidrIpv6: formatCIDR(block),
+              Description: ctx.name,
+            })),
+          };
+    return { IpProtocol: protocol, ...ports, ...ranges };
+  });
+
+  // One permission holds both families when nothing differs but the ranges
+  const merged =
+    permissions.length === 2 &&
+    permissions[0].IpProtocol === permissions[1].IpProtocol
+      ? [{ ...permissions[0], ...permissions[1] }]
+      : permissions;
+  return JSON.stringify(merged, null, 2).split("\n");
+}
+
+/**
+ * A pf table and the pass/block rules that use it
+ */
+function pfRules(blocks: CIDRBlock[], ctx: RuleContext): string[] {
+  const verdict = ctx.action === "permit" ? "pass" : "block";
+  const table = `<${ctx.name}>`;
+  const [from, to] = ctx.direction === "in" ? [table, "any"] : ["any", table];
+  const port =
+    ctx.ports === null
+      ? ""
+      : ` port ${ctx.ports[0] === ctx.ports[1] ? ctx.ports[0] : ctx.ports.join(":")}`;
+
+  // ICMP differs per address family, everything else applies to both
+  const protocols =
+    ctx.protocol === "any"
+      ? [""]
+      : ctx.protocol === "icmp"
+        ? byVersion(blocks).map(([version]) =>
+            version === 4 ? " inet proto icmp" : " inet6 proto icmp6",
+          )
+        : [` proto ${ctx.protocol}`];
+
+  return [
+    `table ${table} { \\`,
+    ...blocks.map((block) => `  ${formatCIDR(block)} \\`),
+    `}`,
+    ...protocols.map(
+      (protocol) =>
+        `${verdict} ${ctx.direction} quick${protocol} from ${from} to ${to}${port}`,
+    ),
+  ];
+}
+
+const RENDERERS: Record<
+  AclTarget,
+  (blocks: CIDRBlock[], ctx: RuleContext) => string[]
+> = {
+  iptables: iptablesRules,
+  nftables: nftablesRules,
+  cisco: ciscoRules,
+  juniper: juniperRules,
+  "aws-sg": awsRules,
+  pf: pfRules,
+};
+
+/**
+ * Firewall rules matching every address of the entries (CIDRs, ranges or
+ * addresses), in entry order unless `merge` is set
+ */
+export function aclRules(entries: string[], options: AclOptions): AclReport {
+  if (!ACL_TARGETS.includes(options.target)) {
+    throw new InvalidInputError(
+      `Unknown ACL target: ${options.target}`,
+      `Expected one of: ${ACL_TARGETS.join(", ")}`,
+    );
+  }
+
+  const name = options.name ?? "ipnav";
+  if (!NAME_PATTERN.test(name)) {
+    throw new InvalidInputError(
+      `Invalid ACL name: ${name}`,
+      "Use letters, digits, '_' and '-', starting with a letter",
+    );
+  }
+
+  const protocol = options.protocol ?? "any";
+  const ports = options.port === undefined ? null : parsePorts(options.port);
+  if (ports !== null && protocol !== "tcp" && protocol !== "udp") {
+    throw new InvalidInputError(
+      "A port needs the tcp or udp protocol",
+      `Got protocol ${protocol}`,
+    );
+  }
+
+  const ranges = entries.map((entry) => parseAddressSpec(entry, options));
+  const blocks = options.merge
+    ? aggregateRanges(ranges)
+    : ranges.flatMap((range) =>
+        rangeToBlocks(range.start, range.end, range.version),
+      );
+
+  const rules = RENDERERS[options.target](blocks, {
+    action: options.action ?? "permit",
+    direction: options.direction ?? "in",
+    protocol,
+    ports,
+    name,
+  });
+
+  return {
+    target: options.target,
+    prefixes: blocks.map((block) => ({
+      cidr: formatCIDR(block),
+      version: block.network.version,
+      wildcard: block.network.version === 4 ? wildcardOf(block) : null,
+    })),
+    rules: rules.join("\n"),
+  };
+}
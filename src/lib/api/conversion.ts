@@ -0,0 +1,621 @@
+/**
+ * Conversion API: the representations behind the conversion commands
+ */
+
+import {
+  ipToBinary,
+  ipToInteger,
+  integerToIP,
+  cidrToSubnetMask,
+  subnetMaskToCIDR,
+} from "ip-navigator/conversion";
+
+import { isValidSubnetMask } from "ip-navigator/validation";
+
+import {
+  AddressNotation,
+  IPAddress,
+  IPVersion,
+  ParseOptions,
+  compressIPv6,
+  expandIPv6,
+  formatIP,
+  fromBigInt,
+  fromBinaryString,
+  getIPVersion,
+  maxValue,
+  parseAddress,
+  parseIP,
+  parseMask,
+  prefixToMask,
+  prefixToWildcard,
+  toBinaryString,
+  toHexString,
+  wildcardSize,
+  wildcardToPrefix,
+} from "@/lib/utils/address.js";
+
+import {
+  blockEnd,
+  blockSize,
+  formatCIDR,
+  parseCIDR,
+  usableHostCount,
+} from "@/lib/utils/cidr.js";
+
+import { InvalidInputError } from "@/lib/utils/errors.js";
+
+export interface BinaryConversion {
+  address: string;
+  version: IPVersion;
+  binary: string;
+}
+
+export interface BinaryDecoding {
+  binary: string;
+  address: string;
+}
+
+export interface IntegerConversion {
+  address: string;
+  version: IPVersion;
+  /** Decimal string, since IPv6 values do not fit in a number */
+  integer: string;
+  hex: string;
+}
+
+export interface IntegerDecoding {
+  integer: string;
+  address: string;
+}
+
+export interface MaskConversion {
+  prefix: number;
+  mask: string;
+  /** Inverse of the mask, as Cisco ACLs and OSPF expect */
+  wildcard: string;
+}
+
+export interface Representations {
+  /** The address as given */
+  input: string;
+  address: string;
+  version: IPVersion;
+  notation: AddressNotation;
+  /** Full eight-group form; null for IPv4 */
+  expanded: string | null;
+  binary: string;
+  integer: string;
+  hex: string;
+  /** Octets in octal (0300.0250.01.01); null for IPv6 */
+  octal: string | null;
+  /** Reverse-DNS name (in-addr.arpa or ip6.arpa) */
+  ptr: string;
+  /** IPv4-mapped IPv6 form (::ffff:192.168.1.1); null for IPv6 */
+  ipv4Mapped: string | null;
+  /** 6to4 prefix derived from the address (2002:c0a8:101::/48); null for IPv6 */
+  sixToFour: string | null;
+}
+
+export interface IPv6Expansion {
+  address: string;
+  expanded: string;
+}
+
+export interface IPv6Compression {
+  address: string;
+  compressed: string;
+}
+
+export interface CIDRRangeReport {
+  cidr: string;
+  start: string;
+  end: string;
+  count: bigint;
+}
+
+export interface PTRName {
+  address: string;
+  version: IPVersion;
+  ptr: string;
+}
+
+export interface ZoneRecord {
+  /** Owner name relative to the zone origin */
+  name: string;
+  type: "NS" | "PTR" | "CNAME";
+  value: string;
+}
+
+export interface ReverseZoneOptions extends ParseOptions {
+  /** Host name pattern with {a} {b} {c} {d} (IPv4 octets) or {ip} */
+  template: string;
+  /** Name servers; defaults to ns1 in the template's domain */
+  nameServers?: string[];
+  /** SOA contact as an email address; defaults to hostmaster@<domain> */
+  email?: string;
+  ttl?: number;
+  /** Defaults to today's date as YYYYMMDD01 */
+  serial?: number;
+  /** Include the network and broadcast addresses of IPv4 blocks */
+  all?: boolean;
+}
+
+export interface ReverseZone {
+  cidr: string;
+  /** Fully qualified zone name, with a trailing dot */
+  origin: string;
+  /** RFC 2317 classless zone, delegated from the enclosing /24 zone */
+  classless: boolean;
+  /** Zone that delegates a classless zone; null otherwise */
+  parentOrigin: string | null;
+  nameServers: string[];
+  /** SOA RNAME (the contact email in DNS form) */
+  contact: string;
+  ttl: number;
+  serial: number;
+  records: ZoneRecord[];
+  /** NS and CNAME records the parent zone needs for a classless zone */
+  delegation: ZoneRecord[];
+}
+
+/** Largest zone ptrZone will generate */
+const MAX_ZONE_RECORDS = 65536n;
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Binary representation of an address: dotted octets for IPv4,
+ * colon-separated 16-bit groups for IPv6 (or spaces with `spaces`)
+ */
+export function toBinary(
+  address: string,
+  options: { spaces?: boolean } & ParseOptions = {},
+): BinaryConversion {
+  const { ip } = parseAddress(address, options);
+  const canonical = formatIP(ip);
+  const binary = ip.version === 6 ? toBinaryString(ip) : ipToBinary(canonical);
+  return {
+    address: canonical,
+    version: ip.version,
+    binary: options.spaces ? binary.replace(/[.:]/g, " ") : binary,
+  };
+}
+
+/**
+ * Address encoded by a binary string; 32 bits (dot, colon or space
+ * separated) give IPv4 and 128 bits give IPv6
+ */
+export function fromBinary(binary: string): BinaryDecoding {
+  const ip = fromBinaryString(binary);
+  return { binary: toBinaryString(ip), address: formatIP(ip) };
+}
+
+/**
+ * Integer value of an address, in decimal and hexadecimal
+ */
+export function toInteger(
+  address: string,
+  options: ParseOptions = {},
+): IntegerConversion {
+  const { ip } = parseAddress(address, options);
+  const canonical = formatIP(ip);
+  const integer: number | bigint =
+    ip.version === 6 ? ip.value : ipToInteger(canonical);
+  return {
+    address: canonical,
+    version: ip.version,
+    integer: integer.toString(),
+    hex: `0x${integer.toString(16).toUpperCase()}`,
+  };
+}
+
+/**
+ * Address for an integer (decimal or 0x hex); values above 2^32 - 1 (or
+ * `ipv6`) give IPv6
+ */
+export function fromInteger(
+  value: string | number | bigint,
+  options: { ipv6?: boolean } = {},
+): IntegerDecoding {
+  const text = value.toString().trim();
+  if (!/^(\d+|0x[0-9a-f]+)$/i.test(text) || BigInt(text) > maxValue(6)) {
+    throw new InvalidInputError(
+      `Invalid integer: ${value}`,
+      "Expected range: 0 to 4294967295 (2^32 - 1) for IPv4, up to 2^128 - 1 for IPv6",
+    );
+  }
+
+  const integer = BigInt(text);
+  const address =
+    options.ipv6 || integer > 4294967295n
+      ? formatIP(fromBigInt(integer, 6))
+      : integerToIP(Number(integer));
+  return { integer: integer.toString(), address };
+}
+
+/**
+ * Netmask for a prefix length (IPv6 netmask with `ipv6`)
+ */
+export function cidrToMask(
+  prefix: string | number,
+  options: { ipv6?: boolean } = {},
+): MaskConversion {
+  const prefixNum = parseInt(prefix.toString(), 10);
+  const maxPrefix = options.ipv6 ? 128 : 32;
+  if (isNaN(prefixNum) || prefixNum < 0 || prefixNum > maxPrefix) {
+    throw new InvalidInputError(
+      `Invalid CIDR prefix: ${prefix}`,
+      `Expected range: 0 to ${maxPrefix}`,
+    );
+  }
+
+  const version = options.ipv6 ? 6 : 4;
+  const mask =
+    version === 6
+      ? formatIP(fromBigInt(prefixToMask(prefixNum, 6), 6))
+      : cidrToSubnetMask(prefixNum);
+  return {
+    prefix: prefixNum,
+    mask,
+    wildcard: formatIP(
+      fromBigInt(prefixToWildcard(prefixNum, version), version),
+    ),
+  };
+}
+
+/**
+ * Wildcard (inverse) mask for a prefix length (IPv6 with `ipv6`)
+ */
+export function cidrToWildcard(
+  prefix: string | number,
+  options: { ipv6?: boolean } = {},
+): MaskConversion {
+  return cidrToMask(prefix, options);
+}
+
+/**
+ * Prefix length of a contiguous IPv4 or IPv6 netmask, or of a contiguous
+ * wildcard mask
+ */
+export function maskToCidr(mask: string): MaskConversion {
+  const version = getIPVersion(mask);
+  if (version === 4 && isValidSubnetMask(mask)) {
+    return cidrToMask(subnetMaskToCIDR(mask) as number);
+  }
+
+  const bits = version === null ? null : parseMask(parseIP(mask));
+  if (bits === null || bits.prefix === null) {
+    throw new InvalidInputError(
+      `Invalid subnet mask: ${mask}`,
+      ...(bits === null
+        ? []
+        : [
+            "Neither a contiguous netmask nor a contiguous wildcard mask (see wildcard-to-cidr)",
+          ]),
+    );
+  }
+  return cidrToMask(bits.prefix, { ipv6: version === 6 });
+}
+
+/**
+ * Prefix length of a contiguous wildcard mask. Non-contiguous wildcards,
+ * valid in Cisco ACLs, match a set of addresses that is not a CIDR block and
+ * are rejected.
+ */
+export function wildcardToCidr(wildcard: string): MaskConversion {
+  const version = getIPVersion(wildcard);
+  if (version === null) {
+    throw new InvalidInputError(`Invalid wildcard mask: ${wildcard}`);
+  }
+
+  const value = parseIP(wildcard);
+  const prefix = wildcardToPrefix(value);
+  if (prefix === null) {
+    throw new InvalidInputError(
+      `Non-contiguous wildcard mask: ${wildcard}`,
+      `It matches ${wildcardSize(value.value).toLocaleString()} addresses that do not form a CIDR block`,
+      "in-subnet still tests membership against it",
+    );
+  }
+  return cidrToMask(prefix, { ipv6: version === 6 });
+}
+
+/**
+ * Every representation of an address, from any notation parseAddress
+ * accepts
+ */
+export function convert(
+  address: string,
+  options: ParseOptions = {},
+): Representations {
+  const { ip, notation } = parseAddress(address, options);
+  const canonical = formatIP(ip);
+  // The canonical form is parsed strictly so IPv6 input stays IPv6
+  const reverse = ptr(canonical, { strict: true }).ptr;
+
+  if (ip.version === 6) {
+    return {
+      input: address,
+      address: canonical,
+      version: ip.version,
+      notation,
+      expanded: expandIPv6(canonical),
+      binary: toBinaryString(ip),
+      integer: ip.value.toString(),
+      hex: toHexString(ip),
+      octal: null,
+      ptr: reverse,
+      ipv4Mapped: null,
+      sixToFour: null,
+    };
+  }
+
+  const integer = ipToInteger(canonical);
+  return {
+    input: address,
+    address: canonical,
+    version: ip.version,
+    notation,
+    expanded: null,
+    binary: ipToBinary(canonical),
+    integer: integer.toString(),
+    hex: `0x${integer.toString(16).toUpperCase()}`,
+    octal: canonical
+      .split(".")
+      .map((octet) => (octet === "0" ? "0" : `0${Number(octet).toString(8)}`))
+      .join("."),
+    ptr: reverse,
+    ipv4Mapped: `::ffff:${canonical}`,
+    sixToFour: `${formatIP({ version: 6, value: (0x2002n << 112n) | (ip.value << 80n) })}/48`,
+  };
+}
+
+/**
+ * Full eight-group form of an IPv6 address
+ */
+export function expand(address: string): IPv6Expansion {
+  if (getIPVersion(address) !== 6) {
+    throw new InvalidInputError(`Invalid IPv6 address: ${address}`);
+  }
+  return { address, expanded: expandIPv6(address) };
+}
+
+/**
+ * RFC 5952 canonical form of an IPv6 address
+ */
+export function compress(address: string): IPv6Compression {
+  if (getIPVersion(address) !== 6) {
+    throw new InvalidInputError(`Invalid IPv6 address: ${address}`);
+  }
+  return { address, compressed: compressIPv6(address) };
+}
+
+/**
+ * First address, last address and size of a CIDR block
+ */
+export function cidrRange(
+  cidr: string,
+  options: ParseOptions = {},
+): CIDRRangeReport {
+  const block = parseCIDR(cidr, options);
+  return {
+    cidr: formatCIDR(block),
+    start: formatIP(block.network),
+    end: formatIP({ version: block.network.version, value: blockEnd(block) }),
+    count: blockSize(block),
+  };
+}
+
+/**
+ * Labels of an address in reverse-DNS order: octets for IPv4, nibbles for
+ * IPv6, least significant first
+ */
+function reverseLabels(value: bigint, version: IPVersion): string[] {
+  const width = version === 4 ? 8n : 4n;
+  const count = version === 4 ? 4 : 32;
+  const mask = (1n << width) - 1n;
+  return Array.from({ length: count }, (_, index) =>
+    ((value >> (BigInt(index) * width)) & mask).toString(
+      version === 4 ? 10 : 16,
+    ),
+  );
+}
+
+/**
+ * Fully qualified reverse-DNS suffix of an address family
+ */
+function arpaSuffix(version: IPVersion): string {
+  return version === 4 ? "in-addr.arpa." : "ip6.arpa.";
+}
+
+/**
+ * Appends the root dot a zone file needs on absolute names
+ */
+function absoluteName(name: string): string {
+  return name.endsWith(".") ? name : `${name}.`;
+}
+
+/**
+ * Reverse-DNS (PTR) name of an address, e.g. 10.1.168.192.in-addr.arpa
+ */
+export function ptr(address: string, options: ParseOptions = {}): PTRName {
+  const { ip } = parseAddress(address, options);
+  const name = [...reverseLabels(ip.value, ip.version), arpaSuffix(ip.version)];
+  return {
+    address: formatIP(ip),
+    version: ip.version,
+    ptr: name.join(".").slice(0, -1),
+  };
+}
+
+/**
+ * Host name for an address from a template such as host-{d}.example.com
+ */
+function expandTemplate(template: string, ip: IPAddress): string {
+  const [d, c, b, a] = reverseLabels(ip.value, ip.version);
+  const values: Record<string, string | undefined> = {
+    // IPv6 uses the full form so labels never start or end with a hyphen
+    ip: (ip.version === 4 ? formatIP(ip) : expandIPv6(formatIP(ip))).replace(
+      /[.:]/g,
+      "-",
+    ),
+    ...(ip.version === 4 ? { a, b, c, d } : {}),
+  };
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, key: string) => {
+    const value = values[key];
+    if (value === undefined) {
+      throw new InvalidInputError(
+        `Unknown template placeholder for IPv${ip.version}: ${placeholder}`,
+        ip.version === 4
+          ? "Available placeholders: {a} {b} {c} {d} (octets) and {ip}"
+          : "Available placeholder for IPv6: {ip}",
+      );
+    }
+    return value;
+  });
+}
+
+/**
+ * Domain a template's host names live in: everything after the first label
+ */
+function templateDomain(template: string): string {
+  const domain = template.replace(/\.$/, "").split(".").slice(1).join(".");
+  if (domain === "" || domain.match(PLACEHOLDER_PATTERN)) {
+    throw new InvalidInputError(
+      `Cannot derive a domain from template: ${template}`,
+      "Pass the name servers and contact explicitly (--ns, --email)",
+    );
+  }
+  return domain;
+}
+
+/**
+ * Today's date as a conventional YYYYMMDDnn zone serial
+ */
+function defaultSerial(): number {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+  return Number(`${date}01`);
+}
+
+/**
+ * Reverse zone for a block. Blocks on an octet (IPv4) or nibble (IPv6)
+ * boundary get a regular zone; IPv4 blocks longer than /24 get an RFC 2317
+ * classless zone plus the CNAME delegation records for the /24 zone.
+ */
+export function ptrZone(
+  cidr: string,
+  options: ReverseZoneOptions,
+): ReverseZone {
+  const block = parseCIDR(cidr, options);
+  const { version } = block.network;
+  const labelBits = version === 4 ? 8 : 4;
+  const classless = version === 4 && block.prefix > 24;
+
+  if (!classless && block.prefix % labelBits !== 0) {
+    const boundary = Math.ceil(block.prefix / labelBits) * labelBits;
+    throw new InvalidInputError(
+      `Reverse zones for IPv${version} need a prefix that is a multiple of ${labelBits}: ${cidr}`,
+      `Split it first: ipnav subnet-split ${formatCIDR(block)} --prefix ${boundary}`,
+    );
+  }
+
+  const size = options.all
+    ? blockSize(block)
+    : usableHostCount(block.prefix, version);
+  if (size > MAX_ZONE_RECORDS) {
+    throw new InvalidInputError(
+      `Zone would contain ${size} records (limit ${MAX_ZONE_RECORDS}): ${cidr}`,
+      "Generate one zone per smaller block (see subnet-split)",
+    );
+  }
+
+  if (!options.template.match(PLACEHOLDER_PATTERN)) {
+    throw new InvalidInputError(
+      `Template has no placeholder: ${options.template}`,
+      "Example: host-{d}.example.com",
+    );
+  }
+
+  const nameServers = (
+    options.nameServers ?? [`ns1.${templateDomain(options.template)}`]
+  ).map(absoluteName);
+  // SOA RNAME: the "@" becomes a dot and dots before it are escaped
+  const email =
+    options.email ?? `hostmaster@${templateDomain(options.template)}`;
+  const at = email.lastIndexOf("@");
+  const contact = absoluteName(
+    at === -1
+      ? email
+      : `${email.slice(0, at).replace(/\./g, "\\.")}.${email.slice(at + 1)}`,
+  );
+
+  const ttl = options.ttl ?? 3600;
+  const serial = options.serial ?? defaultSerial();
+  if (!Number.isInteger(ttl) || ttl < 0) {
+    throw new InvalidInputError(`Invalid TTL: ${options.ttl}`);
+  }
+  if (!Number.isInteger(serial) || serial < 0 || serial > 4294967295) {
+    throw new InvalidInputError(
+      `Invalid serial: ${options.serial}`,
+      "Expected range: 0 to 4294967295",
+    );
+  }
+
+  // Labels of the network that name the zone, most significant last
+  const networkLabels = reverseLabels(block.network.value, version);
+  const zoneLabelCount = classless ? 3 : block.prefix / labelBits;
+  const hostLabelCount = networkLabels.length - zoneLabelCount;
+  const zoneLabels = networkLabels.slice(hostLabelCount);
+  const classlessLabel = `${networkLabels[0]}/${block.prefix}`;
+
+  const parentOrigin = classless
+    ? [...zoneLabels, arpaSuffix(version)].join(".")
+    : null;
+  const origin = [
+    ...(classless ? [classlessLabel] : []),
+    ...zoneLabels,
+    arpaSuffix(version),
+  ].join(".");
+
+  // Without --all, the network and broadcast addresses are skipped
+  const start = block.network.value + (size < blockSize(block) ? 1n : 0n);
+  const records: ZoneRecord[] = [];
+  const delegation: ZoneRecord[] = nameServers.map((server) => ({
+    name: classlessLabel,
+    type: "NS",
+    value: server,
+  }));
+
+  for (let value = start; value < start + size; value++) {
+    const ip = fromBigInt(value, version);
+    const name = reverseLabels(value, version)
+      .slice(0, hostLabelCount)
+      .join(".");
+    const host = absoluteName(expandTemplate(options.template, ip));
+    if (!/^[A-Za-z0-9_-]+(\.[A-Za-z0-9_-]+)*\.$/.test(host)) {
+      throw new InvalidInputError(`Invalid host name from template: ${host}`);
+    }
+    records.push({ name, type: "PTR", value: host });
+    if (classless) {
+      delegation.push({
+        name,
+        type: "CNAME",
+        value: `${name}.${classlessLabel}`,
+      });
+    }
+  }
+
+  return {
+    cidr: formatCIDR(block),
+    origin,
+    classless,
+    parentOrigin,
+    nameServers,
+    contact,
+    ttl,
+    serial,
+    records,
+    delegation: classless ? delegation : [],
+  };
+}
@@ -0,0 +1,382 @@
+/**
+ * Map API: lays the address space of a network out as a grid of equal
+ * cells, marks which parts are used by a list of allocations and renders
+ * the result as SVG or a standalone HTML page for design documents.
+ */
+
+import {
+  IPVersion,
+  ParseOptions,
+  bitLength,
+  formatIP,
+  fromBigInt,
+} from "@/lib/utils/address.js";
+
+import {
+  AddressRange,
+  CIDRBlock,
+  addressCount,
+  blockEnd,
+  blockSize,
+  blockStart,
+  formatCIDR,
+  overlappingPairs,
+  parseAddressSpec,
+  parseCIDR,
+  rangeToBlocks,
+  subtractRangeLists,
+} from "@/lib/utils/cidr.js";
+
+import { InvalidInputError } from "@/lib/utils/errors.js";
+
+/** Largest grid a map may draw */
+const MAX_CELLS = 4096;
+
+/** Default granularity: between 16 and 256 cells */
+const MIN_DEFAULT_BITS = 4;
+const MAX_DEFAULT_BITS = 8;
+
+/** Fill colours of the used entries, in entry order (repeating) */
+const MAP_PALETTE = [
+  "#4e79a7",
+  "#f28e2b",
+  "#59a14f",
+  "#e15759",
+  "#b07aa1",
+  "#76b7b2",
+  "#edc948",
+  "#9c755f",
+] as const;
+
+const FREE_COLOR = "#e8e8e8";
+
+export type MapCellState = "used" | "partial" | "free";
+
+export interface MapOptions extends ParseOptions {
+  /** Allocations inside the network: CIDRs, ranges (start-end) or addresses */
+  used?: string[];
+  /** Prefix length of one cell; chosen from the allocations when omitted */
+  granularity?: number;
+}
+
+export interface MapRenderOptions {
+  /** Cells per row; defaults to 16 */
+  columns?: number;
+}
+
+export interface MapEntry {
+  /** Position in the used list, from 1 */
+  index: number;
+  entry: string;
+  addresses: bigint;
+}
+
+export interface MapCell {
+  cidr: string;
+  state: MapCellState;
+  /** Used entries (by index) that cover part of the cell */
+  entries: number[];
+  /** Percentage of the cell in use */
+  utilization: number;
+}
+
+export interface MapRegion {
+  cidr: string;
+  state: "used" | "free";
+  /** The used entry covering the region; null for free space */
+  entry: string | null;
+  /** Position of that entry in the used list, from 1 */
+  index: number | null;
+  totalHosts: bigint;
+}
+
+export interface SubnetMapReport {
+  network: string;
+  version: IPVersion;
+  /** Prefix length of one cell */
+  granularity: number;
+  totalAddresses: bigint;
+  usedAddresses: bigint;
+  /** Percentage of the network in use */
+  utilization: number;
+  entries: MapEntry[];
+  cells: MapCell[];
+  /** Used and free space as minimal prefixes, in address order */
+  regions: MapRegion[];
+}
+
+function percent(part: bigint, whole: bigint): number {
+  return Number((part * 10000n) / whole) / 100;
+}
+
+function rangeOverlap(a: AddressRange, start: bigint, end: bigint): bigint {
+  const low = a.start > start ? a.start : start;
+  const high = a.end < end ? a.end : end;
+  return high >= low ? high - low + 1n : 0n;
+}
+
+/**
+ * Granularity that draws every region as whole cells, kept between 16 and
+ * 256 cells
+ */
+function defaultGranularity(
+  prefix: number,
+  version: IPVersion,
+  blocks: CIDRBlock[],
+): number {
+  const finest = Math.max(...blocks.map((block) => block.prefix));
+  const low = Math.min(bitLength(version), prefix + MIN_DEFAULT_BITS);
+  const high = Math.min(bitLength(version), prefix + MAX_DEFAULT_BITS);
+  return Math.min(high, Math.max(low, finest));
+}
+
+/**
+ * Maps the used and free space of a network. Allocations must lie inside
+ * the network and must not overlap each other.
+ */
+export function subnetMap(
+  network: string,
+  options: MapOptions = {},
+): SubnetMapReport {
+  const block = parseCIDR(network, options);
+  const version = block.network.version;
+  const start = blockStart(block);
+  const end = blockEnd(block);
+  const entries = options.used ?? [];
+
+  const ranges = entries.map((entry) => {
+    const range = parseAddressSpec(entry, options);
+    if (range.version !== version || range.start < start || range.end > end) {
+      throw new InvalidInputError(
+        `${entry} is outside ${formatCIDR(block)}`,
+        "Every used entry must lie inside the mapped network",
+      );
+    }
+    return range;
+  });
+  const overlapping = overlappingPairs(ranges);
+  if (overlapping.length > 0) {
+    const [i, j] = overlapping[0];
+    throw new InvalidInputError(
+      `Used entries overlap: ${entries[i]} and ${entries[j]}`,
+      "Run ipnav conflicts to list every overlap",
+    );
+  }
+
+  // Used prefixes carry the index of their entry, free ones null
+  const spans: Array<{ block: CIDRBlock; index: number | null }> = [
+    ...ranges.flatMap((range, idx) =>
+      rangeToBlocks(range.start, range.end, version).map((child) => ({
+        block: child,
+        index: idx + 1,
+      })),
+    ),
+    ...subtractRangeLists([{ version, start, end }], ranges).flatMap((range) =>
+      rangeToBlocks(range.start, range.end, version).map((child) => ({
+        block: child,
+        index: null,
+      })),
+    ),
+  ].sort((a, b) => (blockStart(a.block) < blockStart(b.block) ? -1 : 1));
+
+  const granularity =
+    options.granularity ??
+    defaultGranularity(
+      block.prefix,
+      version,
+      spans.map((span) => span.block),
+    );
+  if (
+    !Number.isInteger(granularity) ||
+    granularity < block.prefix ||
+    granularity > bitLength(version)
+  ) {
+    throw new InvalidInputError(
+      `Invalid granularity: /${granularity}`,
+      `Expected a prefix length from ${block.prefix} to ${bitLength(version)}`,
+    );
+  }
+  const cellCount = 1n << BigInt(granularity - block.prefix);
+  if (cellCount > BigInt(MAX_CELLS)) {
+    throw new InvalidInputError(
+      `A /${granularity} grid over ${formatCIDR(block)} has ${cellCount.toLocaleString()} cells`,
+      `Maps are limited to ${MAX_CELLS.toLocaleString()} cells; use a granularity of /${block.prefix + Math.log2(MAX_CELLS)} or shorter`,
+    );
+  }
+
+  const cellSize = 1n << BigInt(bitLength(version) - granularity);
+  const cells: MapCell[] = [];
+  for (let cellStart = start; cellStart <= end; cellStart += cellSize) {
+    const cellEnd = cellStart + cellSize - 1n;
+    let used = 0n;
+    const covering: number[] = [];
+    ranges.forEach((range, idx) => {
+      const shared = rangeOverlap(range, cellStart, cellEnd);
+      if (shared > 0n) {
+        used += shared;
+        covering.push(idx + 1);
+      }
+    });
+
+    cells.push({
+      cidr: `${formatIP(fromBigInt(cellStart, version))}/${granularity}`,
+      state: used === 0n ? "free" : used === cellSize ? "used" : "partial",
+      entries: covering,
+      utilization: percent(used, cellSize),
+    });
+  }
+
+  const totalAddresses = end - start + 1n;
+  const usedAddresses = ranges.reduce(
+    (sum, range) => sum + range.end - range.start + 1n,
+    0n,
+  );
+  return {
+    network: formatCIDR(block),
+    version,
+    granularity,
+    totalAddresses,
+    usedAddresses,
+    utilization: percent(usedAddresses, totalAddresses),
+    entries: entries.map((entry, idx) => ({
+      index: idx + 1,
+      entry,
+      addresses: ranges[idx].end - ranges[idx].start + 1n,
+    })),
+    cells,
+    regions: spans.map((span) => ({
+      cidr: formatCIDR(span.block),
+      state: span.index === null ? "free" : "used",
+      entry: span.index === null ? null : entries[span.index - 1],
+      index: span.index,
+      totalHosts: blockSize(span.block),
+    })),
+  };
+}
+
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Fill colour of a used entry
+ */
+function entryColor(index: number): string {
+  return MAP_PALETTE[(index - 1) % MAP_PALETTE.length];
+}
+
+/**
+ * Renders a map as a standalone SVG image: one square per cell, rows
+ * labelled with their first address, and a legend of the used entries
+ */
+export function renderMapSvg(
+  report: SubnetMapReport,
+  options: MapRenderOptions = {},
+): string {
+  const columns = Math.min(options.columns ?? 16, report.cells.length);
+  const rows = Math.ceil(report.cells.length / columns);
+  const cell = 24;
+  const gap = 2;
+  const labelWidth = report.version === 6 ? 260 : 110;
+  const top = 40;
+  const gridHeight = rows * (cell + gap);
+  const legendTop = top + gridHeight + 24;
+  const legendRows = report.entries.length + 1;
+  const heading = `${report.network}: ${report.usedAddresses.toLocaleString()} of ${report.totalAddresses.toLocaleString()} addresses used (${report.utilization}%), /${report.granularity} cells`;
+  // Monospace glyphs are about 0.6em wide (15px heading)
+  const width = Math.max(
+    labelWidth + columns * (cell + gap) + 20,
+    Math.ceil(heading.length * 9) + 20,
+  );
+  const height = legendTop + legendRows * 22 + 10;
+
+  const lines: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="monospace" font-size="12">`,
+    `  <title>${escapeXML(report.network)} address map</title>`,
+    `  <text x="10" y="22" font-size="15" font-weight="bold">${escapeXML(heading)}</text>`,
+  ];
+
+  report.cells.forEach((mapCell, idx) => {
+    const row = Math.floor(idx / columns);
+    const column = idx % columns;
+    const y = top + row * (cell + gap);
+    if (column === 0) {
+      lines.push(
+        `  <text x="10" y="${y + cell / 2 + 4}">${escapeXML(mapCell.cidr.split("/")[0])}</text>`,
+      );
+    }
+
+    const fill =
+      mapCell.state === "free" ? FREE_COLOR : entryColor(mapCell.entries[0]);
+    const opacity = mapCell.state === "partial" ? ` fill-opacity="0.45"` : "";
+    const title = `${mapCell.cidr}: ${mapCell.state}${mapCell.state === "partial" ? ` (${mapCell.utilization}%)` : ""}`;
+    lines.push(
+      `  <rect x="${labelWidth + column * (cell + gap)}" y="${y}" width="${cell}" height="${cell}" rx="3" fill="${fill}"${opacity}><title>${escapeXML(title)}</title></rect>`,
+    );
+  });
+
+  const legend = [
+    ...report.entries.map((entry) => ({
+      fill: entryColor(entry.index),
+      text: `${entry.entry} (${addressCount(entry.addresses)})`,
+    })),
+    {
+      fill: FREE_COLOR,
+      text: `free (${addressCount(report.totalAddresses - report.usedAddresses)})`,
+    },
+  ];
+  legend.forEach((item, idx) => {
+    const y = legendTop + idx * 22;
+    lines.push(
+      `  <rect x="10" y="${y}" width="16" height="16" rx="3" fill="${item.fill}"/>`,
+      `  <text x="34" y="${y + 12}">${escapeXML(item.text)}</text>`,
+    );
+  });
+
+  lines.push(`</svg>`);
+  return lines.join("\n");
+}
+
+/**
+ * Renders a map as a standalone HTML page: the SVG grid followed by a
+ * table of the used and free regions
+ */
+export function renderMapHtml(
+  report: SubnetMapReport,
+  options: MapRenderOptions = {},
+): string {
+  const rows = report.regions.map((region) => {
+    const fill = region.index === null ? FREE_COLOR : entryColor(region.index);
+    return `      <tr><td><span class="swatch" style="background:${fill}"></span>${escapeXML(region.cidr)}</td><td>${escapeXML(region.entry ?? "free")}</td><td>${region.totalHosts.toLocaleString()}</td></tr>`;
+  });
+
+  return [
+    `<!DOCTYPE html>`,
+    `<html lang="en">`,
+    `<head>`,
+    `  <meta charset="utf-8">`,
+    `  <title>${escapeXML(report.network)} address map</title>`,
+    `  <style>`,
+    `    body { font-family: monospace; margin: 2em; }`,
+    `    table { border-collapse: collapse; margin-top: 1em; }`,
+    `    th, td { border: 1px solid #ccc; padding: 4px 10px; text-align: left; }`,
+    `    .swatch { display: inline-block; width: 12px; height: 12px; margin-right: 8px; border-radius: 2px; }`,
+    `  </style>`,
+    `</head>`,
+    `<body>`,
+    `  <h1>${escapeXML(report.network)}</h1>`,
+    renderMapSvg(report, options),
+    `  <table>`,
+    `    <thead><tr><th>Prefix</th><th>Allocation</th><th>Addresses</th></tr></thead>`,
+    `    <tbody>`,
+    ...rows,
+    `    </tbody>`,
+    `  </table>`,
+    `</body>`,
+    `</html>`,
+  ].join("\n");
+}
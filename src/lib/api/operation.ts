@@ -0,0 +1,629 @@
+/**
+ * Operation API: classification, lookup, extraction, stepping, range
+ * enumeration, comparison and sorting
+ */
+
+import {
+  getNextIPAddress,
+  getPreviousIPAddress,
+  compareIPAddresses,
+} from "ip-navigator/operation";
+
+import {
+  IPAddress,
+  IPVersion,
+  ParseOptions,
+  bitLength,
+  compareIP,
+  formatIP,
+  getIPVersion,
+  isInPrefix,
+  lastOf,
+  networkOf,
+  nextIP,
+  parseAddress,
+  parseIP,
+  parsePrefixLength,
+  previousIP,
+} from "@/lib/utils/address.js";
+
+import {
+  AddressRange,
+  blockEnd,
+  formatCIDR,
+  parseCIDR,
+  parsePrefixAddress,
+  rangeAddresses,
+  rangeSize,
+  rangeToBlocks,
+} from "@/lib/utils/cidr.js";
+
+import { InvalidInputError } from "@/lib/utils/errors.js";
+
+import { MMDBValue, openMMDB } from "@/lib/utils/mmdb.js";
+
+import {
+  AddressType,
+  SPECIAL_PURPOSE_REGISTRY,
+  SpecialPurposeCategory,
+  classifyAddress,
+  entryRange,
+} from "@/lib/utils/registry.js";
+
+export interface Classification {
+  address: string;
+  version: IPVersion;
+  type: AddressType;
+  /** Registry fields below are null (rfc empty) for ordinary unicast */
+  category: SpecialPurposeCategory | null;
+  name: string | null;
+  block: string | null;
+  range: string | null;
+  rfc: string[];
+  forwardable: boolean | null;
+  global: boolean | null;
+  reserved: boolean | null;
+}
+
+export interface LookupOptions extends ParseOptions {
+  /** City or Country database (e.g. GeoLite2-City.mmdb) */
+  db?: string;
+  /** ASN database (e.g. GeoLite2-ASN.mmdb) */
+  asnDb?: string;
+}
+
+export interface GeoLookup {
+  address: string;
+  version: IPVersion;
+  /** ISO 3166-1 alpha-2 code; null when the database has no entry */
+  country: string | null;
+  countryName: string | null;
+  city: string | null;
+  asn: number | null;
+  organization: string | null;
+}
+
+export interface ExtractedAddress {
+  /** Canonical address, or address/prefix for a CIDR */
+  value: string;
+  version: IPVersion;
+  kind: "address" | "cidr";
+  /** Occurrences in the scanned text */
+  count: number;
+}
+
+export interface ExtractOptions extends ParseOptions {
+  /** "public", "private", another AddressKind, or "in:<cidr>" */
+  filter?: string;
+  /** Order by address (IPv4 first) instead of first appearance */
+  sort?: boolean;
+}
+
+/** An address type or a registry category, as tested by classify --is */
+export type AddressKind = AddressType | SpecialPurposeCategory;
+
+export interface RangeCount {
+  start: string;
+  end: string;
+  count: bigint;
+}
+
+export interface RangeBlock {
+  cidr: string;
+  start: string;
+  end: string;
+}
+
+export interface RangeOptions extends ParseOptions {
+  /** Skip this many addresses without generating them */
+  offset?: bigint;
+  limit?: bigint;
+}
+
+export interface Comparison {
+  ip1: string;
+  ip2: string;
+  result: number;
+}
+
+export interface SortedEntry {
+  /** Canonical address, or address/prefix for a CIDR */
+  value: string;
+  version: IPVersion;
+  prefix: number;
+}
+
+export type SortKey = "network" | "prefix";
+
+export interface SortOptions extends ParseOptions {
+  /** Drop repeated entries */
+  unique?: boolean;
+  /** Largest first */
+  reverse?: boolean;
+  /** Order by network address (default) or by prefix length, broadest first */
+  by?: SortKey;
+  /** Drop entries already covered by a broader (or equal) prefix */
+  collapse?: boolean;
+}
+
+export const SORT_KEYS: SortKey[] = ["network", "prefix"];
+
+/** Largest number of steps next/previous take in one call */
+export const MAX_STEPS = 100;
+
+/**
+ * IPv6 candidates: two or more colon-separated hex groups, an optional IPv4
+ * tail, zone ID and prefix. Candidates are confirmed by the address parser,
+ * so times (12:34:56) and MAC addresses drop out there.
+ */
+const IPV6_CANDIDATE =
+  /(?<![\w:.])(?:[0-9a-f]{0,4}:){2,7}(?:\d{1,3}(?:\.\d{1,3}){3}|[0-9a-f]{0,4})(?:%[\w.-]+)?(?:\/\d{1,3})?(?![\w:])/gi;
+
+/** IPv4 candidates, not part of a longer dotted or alphanumeric token */
+const IPV4_CANDIDATE =
+  /(?<![\w.])\d{1,3}(?:\.\d{1,3}){3}(?:\/\d{1,2})?(?![\w]|\.\d)/g;
+
+/** Every kind matchesKind understands */
+export const ADDRESS_KINDS: AddressKind[] = [
+  ...new Set<AddressKind>([
+    "public",
+    "private",
+    "special",
+    ...SPECIAL_PURPOSE_REGISTRY.map((entry) => entry.category),
+  ]),
+];
+
+/**
+ * Classifies an address, in any notation parseAddress accepts, against the
+ * IANA special-purpose registry
+ */
+export function classify(
+  address: string,
+  options: ParseOptions = {},
+): Classification {
+  const { ip } = parseAddress(address, options);
+  const canonical = formatIP(ip);
+
+  const { type, entry } = classifyAddress(canonical);
+  return {
+    address: canonical,
+    version: ip.version,
+    type,
+    category: entry?.category ?? null,
+    name: entry?.name ?? null,
+    block: entry?.block ?? null,
+    range: entry ? entryRange(entry) : null,
+    rfc: entry?.rfc ?? [],
+    forwardable: entry?.forwardable ?? null,
+    global: entry?.globallyReachable ?? null,
+    reserved: entry?.reservedByProtocol ?? null,
+  };
+}
+
+/**
+ * Whether a classification is of the given type ("public", "private",
+ * "special") or registry category ("loopback", "documentation", ...)
+ */
+export function matchesKind(
+  classification: Classification,
+  kind: AddressKind,
+): boolean {
+  return classification.type === kind || classification.category === kind;
+}
+
+/**
+ * Follows a path of keys through a MaxMind record
+ */
+function field(record: MMDBValue | null, ...path: string[]): MMDBValue | null {
+  let value = record;
+  for (const key of path) {
+    if (value === null || typeof value !== "object" || !(key in value)) {
+      return null;
+    }
+    value = (value as { [key: string]: MMDBValue })[key];
+  }
+  return value;
+}
+
+/**
+ * Looks an address up in local MaxMind DB files: country and city from a
+ * City or Country database, ASN and organization from an ASN database
+ */
+export function lookup(address: string, options: LookupOptions): GeoLookup {
+  if (options.db === undefined && options.asnDb === undefined) {
+    throw new InvalidInputError(
+      "No database given",
+      "Pass a City/Country database (--db), an ASN database (--asn-db), or both",
+    );
+  }
+
+  const { ip } = parseAddress(address, options);
+  const geo = options.db ? openMMDB(options.db).get(ip) : null;
+  const asn = options.asnDb ? openMMDB(options.asnDb).get(ip) : null;
+
+  // Anycast and satellite ranges often only carry the registered country
+  const country = field(geo, "country") ?? field(geo, "registered_country");
+
+  return {
+    address: formatIP(ip),
+    version: ip.version,
+    country: field(country, "iso_code") as string | null,
+    countryName: field(country, "names", "en") as string | null,
+    city: field(geo, "city", "names", "en") as string | null,
+    asn: field(asn, "autonomous_system_number") as number | null,
+    organization: field(asn, "autonomous_system_organization") as string | null,
+  };
+}
+
+/**
+ * Canonical form of an extracted candidate, or null when it is not an
+ * address. A prefix that does not fit the address is dropped.
+ */
+function normalizeCandidate(candidate: string): string | null {
+  const [text, prefix] = candidate.replace(/%[^/]*/, "").split("/");
+  const version = getIPVersion(text);
+  if (version === null || !/[0-9a-f]/i.test(text)) {
+    return null;
+  }
+
+  const address = formatIP(parseIP(text));
+  return prefix !== undefined && Number(prefix) <= bitLength(version)
+    ? `${address}/${Number(prefix)}`
+    : address;
+}
+
+/**
+ * Every IPv4 and IPv6 address and CIDR in a piece of free text (log lines,
+ * JSON, configs), in order of appearance and in canonical form
+ */
+export function findAddresses(text: string): string[] {
+  const found: { index: number; value: string }[] = [];
+
+  // IPv6 first, blanking each match so embedded IPv4 tails (::ffff:1.2.3.4)
+  // are not picked up a second time
+  const rest = text.replace(IPV6_CANDIDATE, (match, index: number) => {
+    const value = normalizeCandidate(match);
+    if (value === null) {
+      return match;
+    }
+    found.push({ index, value });
+    return " ".repeat(match.length);
+  });
+
+  for (const match of rest.matchAll(IPV4_CANDIDATE)) {
+    const value = normalizeCandidate(match[0]);
+    if (value !== null) {
+      found.push({ index: match.index, value });
+    }
+  }
+
+  return found.sort((a, b) => a.index - b.index).map((entry) => entry.value);
+}
+
+/**
+ * Turns an extract filter into a predicate, validating it up front
+ */
+function extractFilter(
+  filter: string,
+  options: ParseOptions,
+): (address: IPAddress, prefix: number) => boolean {
+  if (filter.startsWith("in:")) {
+    const block = parseCIDR(filter.slice(3), options);
+    return (address, prefix) =>
+      prefix >= block.prefix &&
+      isInPrefix(address, block.network, block.prefix);
+  }
+
+  if (!(ADDRESS_KINDS as string[]).includes(filter)) {
+    throw new InvalidInputError(
+      `Invalid filter: ${filter}`,
+      `Expected in:<cidr> or one of: ${ADDRESS_KINDS.join(", ")}`,
+    );
+  }
+  return (address) =>
+    matchesKind(classify(formatIP(address)), filter as AddressKind);
+}
+
+/**
+ * Unique addresses and CIDRs in lines of text, with their number of
+ * occurrences. Lines may come from a file stream, so large logs are never
+ * held in memory.
+ */
+export async function extract(
+  lines: Iterable<string> | AsyncIterable<string>,
+  options: ExtractOptions = {},
+): Promise<ExtractedAddress[]> {
+  const matches =
+    options.filter === undefined
+      ? null
+      : extractFilter(options.filter, options);
+  const counts = new Map<string, number>();
+
+  for await (const line of lines) {
+    for (const value of findAddresses(line)) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+
+  const results: (ExtractedAddress & { ip: IPAddress; prefix: number })[] = [];
+  for (const [value, count] of counts) {
+    const [text, prefix] = value.split("/");
+    const ip = parseIP(text);
+    const length =
+      prefix === undefined ? bitLength(ip.version) : Number(prefix);
+    if (matches === null || matches(ip, length)) {
+      results.push({
+        value,
+        version: ip.version,
+        kind: prefix === undefined ? "address" : "cidr",
+        count,
+        ip,
+        prefix: length,
+      });
+    }
+  }
+
+  if (options.sort) {
+    results.sort(
+      (a, b) =>
+        a.ip.version - b.ip.version ||
+        compare(formatIP(a.ip), formatIP(b.ip)).result ||
+        b.prefix - a.prefix,
+    );
+  }
+  return results.map(({ value, version, kind, count }) => ({
+    value,
+    version,
+    kind,
+    count,
+  }));
+}
+
+/**
+ * Walks count addresses forward (step 1) or backward (step -1)
+ */
+function step(
+  address: string,
+  count: number,
+  direction: 1 | -1,
+  options: ParseOptions,
+): string[] {
+  const { ip: start } = parseAddress(address, options);
+  const version = start.version;
+  if (!Number.isInteger(count) || count < 1 || count > MAX_STEPS) {
+    throw new InvalidInputError(`Count must be between 1 and ${MAX_STEPS}`);
+  }
+
+  let current = formatIP(start);
+  const results: string[] = [];
+  for (let i = 0; i < count; i++) {
+    if (version === 6) {
+      const ip = parseIP(current);
+      current = formatIP(direction === 1 ? nextIP(ip) : previousIP(ip));
+    } else {
+      current =
+        direction === 1
+          ? getNextIPAddress(current)
+          : getPreviousIPAddress(current);
+    }
+    results.push(current);
+  }
+  return results;
+}
+
+/**
+ * The count addresses following an address, nearest first
+ */
+export function nextAddresses(
+  address: string,
+  count = 1,
+  options: ParseOptions = {},
+): string[] {
+  return step(address, count, 1, options);
+}
+
+/**
+ * The count addresses preceding an address, nearest first
+ */
+export function previousAddresses(
+  address: string,
+  count = 1,
+  options: ParseOptions = {},
+): string[] {
+  return step(address, count, -1, options);
+}
+
+/**
+ * Validates start and end and turns them into a range
+ */
+function parseRange(
+  start: string,
+  end: string,
+  options: ParseOptions,
+): AddressRange {
+  const { ip: first } = parseAddress(start, options);
+  const { ip: last } = parseAddress(end, options);
+  const version = first.version;
+  if (last.version !== version) {
+    throw new InvalidInputError(
+      `Start IP (${start}) and end IP (${end}) must be the same IP version`,
+    );
+  }
+  if (compareIP(first, last) > 0) {
+    throw new InvalidInputError(
+      `Start IP (${start}) must be less than or equal to end IP (${end})`,
+    );
+  }
+  return { version, start: first.value, end: last.value };
+}
+
+/**
+ * Number of addresses between start and end (inclusive), computed without
+ * enumerating them
+ */
+export function countRange(
+  start: string,
+  end: string,
+  options: ParseOptions = {},
+): RangeCount {
+  return { start, end, count: rangeSize(parseRange(start, end, options)) };
+}
+
+/**
+ * Addresses between start and end (inclusive), generated lazily so even a
+ * full /0 never sits in memory. offset skips the first addresses; limit caps
+ * how many are produced.
+ */
+export function enumerateRange(
+  start: string,
+  end: string,
+  options: RangeOptions = {},
+): Iterable<string> {
+  const range = parseRange(start, end, options);
+  const offset = options.offset ?? 0n;
+  const total = rangeSize(range);
+  if (offset < 0n || offset >= total) {
+    throw new InvalidInputError(
+      `Offset ${offset} is past the end of the range (${total.toLocaleString()} addresses)`,
+    );
+  }
+
+  return {
+    *[Symbol.iterator]() {
+      for (const ip of rangeAddresses(range, offset, options.limit)) {
+        yield formatIP(ip);
+      }
+    },
+  };
+}
+
+/**
+ * Minimal list of CIDR blocks covering start to end exactly
+ */
+export function rangeToCIDRs(
+  start: string,
+  end: string,
+  options: ParseOptions = {},
+): RangeBlock[] {
+  const range = parseRange(start, end, options);
+  return rangeToBlocks(range.start, range.end, range.version).map((block) => ({
+    cidr: formatCIDR(block),
+    start: formatIP(block.network),
+    end: formatIP({ version: range.version, value: blockEnd(block) }),
+  }));
+}
+
+/**
+ * Numeric comparison of two addresses: -1, 0 or 1
+ */
+export function compare(
+  ip1: string,
+  ip2: string,
+  options: ParseOptions = {},
+): Comparison {
+  const { ip: a } = parseAddress(ip1, options);
+  const { ip: b } = parseAddress(ip2, options);
+
+  const result =
+    a.version === 4 && b.version === 4
+      ? compareIPAddresses(formatIP(a), formatIP(b))
+      : compareIP(a, b);
+  return { ip1, ip2, result };
+}
+
+/**
+ * Parses a sort entry; CIDRs keep their host bits in the output but sort by
+ * their network address
+ */
+function parseSortEntry(
+  entry: string,
+  options: ParseOptions,
+): SortedEntry & { network: IPAddress } {
+  const [text, length, ...rest] = entry.trim().split("/");
+  if (rest.length > 0) {
+    throw new InvalidInputError(`Invalid CIDR notation: ${entry}`);
+  }
+  const ip =
+    length === undefined
+      ? parseAddress(text, options).ip
+      : parsePrefixAddress(text, options);
+  const prefix =
+    length === undefined
+      ? bitLength(ip.version)
+      : parsePrefixLength(length, ip.version);
+
+  return {
+    value: length === undefined ? formatIP(ip) : `${formatIP(ip)}/${prefix}`,
+    version: ip.version,
+    prefix,
+    network: networkOf(ip, prefix),
+  };
+}
+
+/**
+ * Sorts addresses and CIDRs numerically, IPv4 before IPv6. Entries with the
+ * same network put the broader prefix first, so a block precedes what it
+ * contains.
+ */
+export function sortAddresses(
+  entries: string[],
+  options: SortOptions = {},
+): SortedEntry[] {
+  const by = options.by ?? "network";
+  if (!SORT_KEYS.includes(by)) {
+    throw new InvalidInputError(
+      `Invalid sort key: ${by}`,
+      `Expected one of: ${SORT_KEYS.join(", ")}`,
+    );
+  }
+
+  const byNetwork = (
+    a: ReturnType<typeof parseSortEntry>,
+    b: ReturnType<typeof parseSortEntry>,
+  ) =>
+    a.version - b.version ||
+    compare(formatIP(a.network), formatIP(b.network)).result ||
+    a.prefix - b.prefix ||
+    compare(a.value.split("/")[0], b.value.split("/")[0]).result;
+
+  let parsed = entries
+    .map((entry) => parseSortEntry(entry, options))
+    .sort(byNetwork);
+
+  if (options.unique) {
+    parsed = parsed.filter(
+      (entry, idx) => idx === 0 || entry.value !== parsed[idx - 1].value,
+    );
+  }
+
+  // In network order a covering prefix always comes before the entries it
+  // covers, so one sweep per version finds them
+  if (options.collapse) {
+    let coverVersion: IPVersion | null = null;
+    let coverEnd = -1n;
+    parsed = parsed.filter((entry) => {
+      const end = lastOf(entry.network, entry.prefix).value;
+      if (entry.version === coverVersion && end <= coverEnd) {
+        return false;
+      }
+      coverVersion = entry.version;
+      coverEnd = end;
+      return true;
+    });
+  }
+
+  if (by === "prefix") {
+    parsed.sort(
+      (a, b) => a.version - b.version || a.prefix - b.prefix || byNetwork(a, b),
+    );
+  }
+  if (options.reverse) {
+    parsed.reverse();
+  }
+
+  return parsed.map(({ value, version, prefix }) => ({
+    value,
+    version,
+    prefix,
+  }));
+}
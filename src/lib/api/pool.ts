@@ -0,0 +1,279 @@
+/**
+ * Pool API: a small local IPAM. Named pools of addresses live in a JSON
+ * state file; allocations hand out the lowest free usable addresses and
+ * are recorded with an optional label until they are released.
+ */
+
+import {
+  IPVersion,
+  ParseOptions,
+  formatIP,
+  fromBigInt,
+  getPrefixDetails,
+  parseAddress,
+  parseIP,
+} from "@/lib/utils/address.js";
+
+import {
+  blockEnd,
+  blockStart,
+  formatCIDR,
+  parseCIDR,
+} from "@/lib/utils/cidr.js";
+
+import { InvalidInputError } from "@/lib/utils/errors.js";
+
+import { readState, updateState } from "@/lib/utils/state.js";
+
+export interface PoolOptions {
+  /** Path of the JSON state file holding every pool */
+  file: string;
+}
+
+export interface AllocateOptions extends PoolOptions {
+  count?: number;
+  label?: string;
+}
+
+export interface ReleaseOptions extends PoolOptions, ParseOptions {
+  /** Addresses to release */
+  addresses?: string[];
+  /** Release every allocation carrying this label */
+  label?: string;
+}
+
+export interface PoolAllocation {
+  address: string;
+  label: string | null;
+  allocatedAt: string;
+}
+
+export interface PoolSummary {
+  name: string;
+  cidr: string;
+  version: IPVersion;
+  createdAt: string;
+  /** Usable addresses: the network and broadcast addresses are never handed out */
+  capacity: bigint;
+  allocated: number;
+  free: bigint;
+  /** Percentage of the capacity in use */
+  utilization: number;
+}
+
+export interface PoolReport extends PoolSummary {
+  allocations: PoolAllocation[];
+}
+
+interface StoredPool {
+  cidr: string;
+  createdAt: string;
+  allocations: PoolAllocation[];
+}
+
+interface PoolState {
+  version: 1;
+  pools: Record<string, StoredPool>;
+}
+
+const POOL_NAME_PATTERN = /^[A-Za-z0-9][\w.-]*$/;
+
+function emptyState(): PoolState {
+  return { version: 1, pools: {} };
+}
+
+/**
+ * First and last address a pool may hand out
+ */
+function usableBounds(pool: StoredPool): [bigint, bigint] {
+  const block = parseCIDR(pool.cidr);
+  const details = getPrefixDetails(formatIP(block.network), block.prefix);
+  return [
+    parseIP(details.firstUsableHost).value,
+    parseIP(details.lastUsableHost).value,
+  ];
+}
+
+function requirePool(state: PoolState, name: string): StoredPool {
+  if (!Object.hasOwn(state.pools, name)) {
+    const names = Object.keys(state.pools);
+    throw new InvalidInputError(
+      `Unknown pool: ${name}`,
+      names.length > 0
+        ? `Existing pools: ${names.join(", ")}`
+        : "No pools have been created yet",
+    );
+  }
+  return state.pools[name];
+}
+
+function summarize(name: string, pool: StoredPool): PoolSummary {
+  const [first, last] = usableBounds(pool);
+  const capacity = last - first + 1n;
+  const allocated = pool.allocations.length;
+
+  return {
+    name,
+    cidr: pool.cidr,
+    version: parseCIDR(pool.cidr).network.version,
+    createdAt: pool.createdAt,
+    capacity,
+    allocated,
+    free: capacity - BigInt(allocated),
+    utilization: Number((BigInt(allocated) * 10000n) / capacity) / 100,
+  };
+}
+
+/**
+ * Creates an empty pool over a CIDR. Pools in the same state file may not
+ * overlap, so no address can be handed out twice.
+ */
+export async function createPool(
+  name: string,
+  cidr: string,
+  options: PoolOptions & ParseOptions,
+): Promise<PoolSummary> {
+  if (!POOL_NAME_PATTERN.test(name)) {
+    throw new InvalidInputError(
+      `Invalid pool name: ${name}`,
+      "Use letters, digits, '.', '_' and '-', starting with a letter or digit",
+    );
+  }
+  const block = parseCIDR(cidr, options);
+
+  return updateState(options.file, emptyState, (state) => {
+    if (Object.hasOwn(state.pools, name)) {
+      throw new InvalidInputError(
+        `Pool already exists: ${name} (${state.pools[name].cidr})`,
+      );
+    }
+
+    for (const [other, pool] of Object.entries(state.pools)) {
+      const existing = parseCIDR(pool.cidr);
+      if (
+        existing.network.version === block.network.version &&
+        blockStart(existing) <= blockEnd(block) &&
+        blockStart(block) <= blockEnd(existing)
+      ) {
+        throw new InvalidInputError(
+          `${formatCIDR(block)} overlaps pool ${other} (${pool.cidr})`,
+        );
+      }
+    }
+
+    const pool: StoredPool = {
+      cidr: formatCIDR(block),
+      createdAt: new Date().toISOString(),
+      allocations: [],
+    };
+    state.pools[name] = pool;
+    return summarize(name, pool);
+  });
+}
+
+/**
+ * Allocates the lowest free usable addresses of a pool
+ */
+export async function allocateAddresses(
+  name: string,
+  options: AllocateOptions,
+): Promise<PoolAllocation[]> {
+  const count = options.count ?? 1;
+  if (!Number.isInteger(count) || count < 1) {
+    throw new InvalidInputError(
+      `Invalid count: ${count}`,
+      "Expected a positive integer",
+    );
+  }
+
+  return updateState(options.file, emptyState, (state) => {
+    const pool = requirePool(state, name);
+    const [first, last] = usableBounds(pool);
+    const free = last - first + 1n - BigInt(pool.allocations.length);
+    if (BigInt(count) > free) {
+      throw new InvalidInputError(
+        `Pool ${name} has ${free.toLocaleString()} free addresses, ${count.toLocaleString()} requested`,
+      );
+    }
+
+    const version = parseCIDR(pool.cidr).network.version;
+    const taken = new Set(
+      pool.allocations.map((allocation) => parseIP(allocation.address).value),
+    );
+    const allocatedAt = new Date().toISOString();
+    const allocations: PoolAllocation[] = [];
+    for (
+      let value = first;
+      value <= last && allocations.length < count;
+      value++
+    ) {
+      if (!taken.has(value)) {
+        allocations.push({
+          address: formatIP(fromBigInt(value, version)),
+          label: options.label ?? null,
+          allocatedAt,
+        });
+      }
+    }
+
+    pool.allocations = [...pool.allocations, ...allocations].sort((a, b) =>
+      parseIP(a.address).value < parseIP(b.address).value ? -1 : 1,
+    );
+    return allocations;
+  });
+}
+
+/**
+ * Returns addresses to a pool, by address or by label
+ */
+export async function releaseAddresses(
+  name: string,
+  options: ReleaseOptions,
+): Promise<PoolAllocation[]> {
+  const addresses = (options.addresses ?? []).map(
+    (address) => parseAddress(address, options).ip,
+  );
+
+  return updateState(options.file, emptyState, (state) => {
+    const pool = requirePool(state, name);
+    const released = new Set<PoolAllocation>();
+    for (const ip of addresses) {
+      const allocation = pool.allocations.find(
+        (entry) => entry.address === formatIP(ip),
+      );
+      if (allocation === undefined) {
+        throw new InvalidInputError(
+          `${formatIP(ip)} is not allocated in pool ${name}`,
+        );
+      }
+      released.add(allocation);
+    }
+    if (options.label !== undefined) {
+      pool.allocations
+        .filter((entry) => entry.label === options.label)
+        .forEach((entry) => released.add(entry));
+    }
+
+    pool.allocations = pool.allocations.filter((entry) => !released.has(entry));
+    return [...released];
+  });
+}
+
+/**
+ * A pool with its allocations and utilization
+ */
+export function showPool(name: string, options: PoolOptions): PoolReport {
+  const state = readState(options.file, emptyState);
+  const pool = requirePool(state, name);
+  return { ...summarize(name, pool), allocations: pool.allocations };
+}
+
+/**
+ * Every pool of a state file with its utilization
+ */
+export function listPools(options: PoolOptions): PoolSummary[] {
+  const state = readState(options.file, emptyState);
+  return Object.entries(state.pools).map(([name, pool]) =>
+    summarize(name, pool),
+  );
+}
@@ -0,0 +1,229 @@
+/**
+ * Random API: reproducible random host addresses and child subnets for test
+ * data, drawn from a prefix, an address class or both. A seed fixes the
+ * result; without one a fresh seed is chosen and reported.
+ */
+
+import {
+  IPVersion,
+  ParseOptions,
+  bitLength,
+  formatIP,
+  fromBigInt,
+  getPrefixDetails,
+  parseIP,
+  parsePrefixLength,
+} from "@/lib/utils/address.js";
+
+import {
+  AddressRange,
+  blockEnd,
+  blockStart,
+  formatCIDR,
+  intersectRangeLists,
+  mergeRanges,
+  parseAddressSpec,
+  parseCIDR,
+  subtractRangeLists,
+} from "@/lib/utils/cidr.js";
+
+import { InvalidInputError } from "@/lib/utils/errors.js";
+
+import { randomBelow, randomSeed, seededRandom } from "@/lib/utils/random.js";
+
+import { SPECIAL_PURPOSE_REGISTRY } from "@/lib/utils/registry.js";
+
+export const RANDOM_CLASSES = ["public", "private", "documentation"] as const;
+
+export type RandomClass = (typeof RANDOM_CLASSES)[number];
+
+/** Largest sample one call draws */
+export const MAX_RANDOM = 1_000_000;
+
+export interface RandomOptions extends ParseOptions {
+  /** Prefix to draw from; host addresses skip its network and broadcast */
+  within?: string;
+  /** Address class to draw from, inside `within` when both are given */
+  class?: RandomClass;
+  /** Draw IPv6 addresses when only a class is given (IPv4 by default) */
+  ipv6?: boolean;
+  /** Draw child networks of this prefix length instead of addresses */
+  subnets?: number | string;
+  /** Defaults to 1 */
+  count?: number;
+  /** Never return the same value twice */
+  unique?: boolean;
+  /** The same seed and options always give the same sample */
+  seed?: string;
+}
+
+export interface RandomSample {
+  /** The seed used, to repeat the sample */
+  seed: string;
+  kind: "address" | "subnet";
+  /** Number of distinct values the options allow */
+  population: bigint;
+  values: string[];
+}
+
+/**
+ * Aligned runs of candidates: count values from start, step apart
+ */
+interface Slot {
+  start: bigint;
+  count: bigint;
+}
+
+/**
+ * Address space of a class. Public space is everything outside the special
+ * purpose registry (global unicast 2000::/3 for IPv6), so the samples look
+ * like real Internet hosts.
+ */
+function classRanges(kind: RandomClass, version: IPVersion): AddressRange[] {
+  const entries = SPECIAL_PURPOSE_REGISTRY.filter(
+    (entry) => parseCIDR(entry.block).network.version === version,
+  );
+  if (kind !== "public") {
+    return mergeRanges(
+      entries
+        .filter((entry) => entry.category === kind)
+        .map((entry) => parseAddressSpec(entry.block)),
+    );
+  }
+
+  return subtractRangeLists(
+    [parseAddressSpec(version === 4 ? "0.0.0.0/0" : "2000::/3")],
+    entries.map((entry) => parseAddressSpec(entry.block)),
+  );
+}
+
+/**
+ * Splits candidate ranges into slots of aligned values step apart; for
+ * subnets only children that fit whole are kept
+ */
+function rangeSlots(ranges: AddressRange[], step: bigint): Slot[] {
+  return ranges.flatMap((range) => {
+    const first = ((range.start + step - 1n) / step) * step;
+    const count = (range.end + 1n - first) / step;
+    return count > 0n ? [{ start: first, count }] : [];
+  });
+}
+
+/**
+ * Value at an index of the slots, counted across all of them
+ */
+function slotValue(slots: Slot[], index: bigint, step: bigint): bigint {
+  let remaining = index;
+  for (const slot of slots) {
+    if (remaining < slot.count) {
+      return slot.start + remaining * step;
+    }
+    remaining -= slot.count;
+  }
+  throw new InvalidInputError(`Index ${index} is outside the population`);
+}
+
+/**
+ * Draws random host addresses, or child subnets with `subnets`, from a
+ * prefix and/or an address class
+ */
+export function randomAddresses(options: RandomOptions): RandomSample {
+  if (options.within === undefined && options.class === undefined) {
+    throw new InvalidInputError(
+      "Nothing to draw from",
+      "Pass a prefix (--in), an address class (--class) or both",
+    );
+  }
+  const count = options.count ?? 1;
+  if (!Number.isInteger(count) || count < 1 || count > MAX_RANDOM) {
+    throw new InvalidInputError(
+      `Invalid count: ${count}`,
+      `Expected an integer from 1 to ${MAX_RANDOM.toLocaleString()}`,
+    );
+  }
+
+  const block =
+    options.within === undefined ? null : parseCIDR(options.within, options);
+  const version = block?.network.version ?? (options.ipv6 ? 6 : 4);
+  const prefix =
+    options.subnets === undefined
+      ? null
+      : parsePrefixLength(
+          options.subnets.toString().replace(/^\//, ""),
+          version,
+        );
+  if (block !== null && prefix !== null && prefix < block.prefix) {
+    throw new InvalidInputError(
+      `Subnet prefix /${prefix} must not be shorter than /${block.prefix}`,
+    );
+  }
+
+  // Subnets may use the whole prefix; hosts skip network and broadcast
+  let ranges: AddressRange[] = [];
+  if (block !== null) {
+    if (prefix === null) {
+      const details = getPrefixDetails(formatIP(block.network), block.prefix);
+      ranges = [
+        {
+          version,
+          start: parseIP(details.firstUsableHost).value,
+          end: parseIP(details.lastUsableHost).value,
+        },
+      ];
+    } else {
+      ranges = [{ version, start: blockStart(block), end: blockEnd(block) }];
+    }
+  }
+  if (options.class !== undefined) {
+    const space = classRanges(options.class, version);
+    ranges = block === null ? space : intersectRangeLists(ranges, space);
+  }
+
+  const step = prefix === null ? 1n : 1n << BigInt(bitLength(version) - prefix);
+  const slots = rangeSlots(ranges, step);
+  const population = slots.reduce((sum, slot) => sum + slot.count, 0n);
+  if (population === 0n) {
+    const kind = options.class === undefined ? "" : `${options.class} `;
+    throw new InvalidInputError(
+      `No ${kind}${prefix === null ? "addresses" : `whole /${prefix} subnets`} in ${block === null ? `IPv${version} space` : formatCIDR(block)}`,
+    );
+  }
+  if (options.unique && BigInt(count) > population) {
+    throw new InvalidInputError(
+      `Cannot draw ${count.toLocaleString()} unique values: only ${population.toLocaleString()} exist`,
+    );
+  }
+
+  const seed = options.seed ?? randomSeed();
+  const random = seededRandom(seed);
+  let indexes: bigint[];
+  if (options.unique) {
+    // Floyd's algorithm draws distinct indexes without rejection loops,
+    // then a Fisher-Yates shuffle puts them in random order
+    const chosen = new Set<bigint>();
+    for (let j = population - BigInt(count); j < population; j++) {
+      const t = randomBelow(random, j + 1n);
+      chosen.add(chosen.has(t) ? j : t);
+    }
+    indexes = [...chosen];
+    for (let i = indexes.length - 1; i > 0; i--) {
+      const k = Number(randomBelow(random, BigInt(i + 1)));
+      [indexes[i], indexes[k]] = [indexes[k], indexes[i]];
+    }
+  } else {
+    indexes = Array.from({ length: count }, () =>
+      randomBelow(random, population),
+    );
+  }
+
+  const values = indexes.map((index) => {
+    const ip = fromBigInt(slotValue(slots, index, step), version);
+    return prefix === null ? formatIP(ip) : formatCIDR({ network: ip, prefix });
+  });
+  return {
+    seed,
+    kind: prefix === null ? "address" : "subnet",
+    population,
+    values,
+  };
+}
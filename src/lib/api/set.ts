@@ -0,0 +1,124 @@
+/**
+ * Set API: union, intersection, difference and complement over lists of
+ * CIDRs, ranges (start-end) and addresses. Results are minimal CIDR lists.
+ */
+
+import { IPVersion, ParseOptions, maxValue } from "@/lib/utils/address.js";
+
+import {
+  AddressRange,
+  BlockReport,
+  aggregateRanges,
+  describeBlock,
+  intersectRangeLists,
+  mergeRanges,
+  parseAddressSpec,
+  subtractRangeLists,
+} from "@/lib/utils/cidr.js";
+
+import { SPECIAL_PURPOSE_REGISTRY, addressType } from "@/lib/utils/registry.js";
+
+export interface ComplementOptions extends ParseOptions {
+  /** Universe to complement within (defaults to each input version's space) */
+  within?: string[];
+  /** Use the IPv6 space when the input is empty */
+  ipv6?: boolean;
+  /** Also remove private and special-purpose registry space */
+  public?: boolean;
+}
+
+function parseList(entries: string[], options: ParseOptions): AddressRange[] {
+  return entries.map((entry) => parseAddressSpec(entry, options));
+}
+
+function toReports(ranges: AddressRange[]): BlockReport[] {
+  return aggregateRanges(ranges).map((block) => describeBlock(block));
+}
+
+/**
+ * Whole address space of an IP version as a range
+ */
+function addressSpace(version: IPVersion): AddressRange {
+  return { version, start: 0n, end: maxValue(version) };
+}
+
+/**
+ * Registry space that is not public (private, loopback, documentation, ...),
+ * minus the globally reachable blocks nested inside it
+ */
+function nonPublicSpace(): AddressRange[] {
+  const blocks = SPECIAL_PURPOSE_REGISTRY.map((entry) => ({
+    range: parseAddressSpec(entry.block),
+    isPublic: addressType(entry) === "public",
+  }));
+  return subtractRangeLists(
+    blocks.filter((block) => !block.isPublic).map((block) => block.range),
+    blocks.filter((block) => block.isPublic).map((block) => block.range),
+  );
+}
+
+/**
+ * Addresses in any of the lists
+ */
+export function setUnion(
+  lists: string[][],
+  options: ParseOptions = {},
+): BlockReport[] {
+  return toReports(lists.flatMap((list) => parseList(list, options)));
+}
+
+/**
+ * Addresses present in every list
+ */
+export function setIntersect(
+  lists: string[][],
+  options: ParseOptions = {},
+): BlockReport[] {
+  const [first = [], ...rest] = lists.map((list) => parseList(list, options));
+  return toReports(
+    rest.reduce((acc, list) => intersectRangeLists(acc, list), first),
+  );
+}
+
+/**
+ * Addresses in the base list that are in none of the others
+ */
+export function setSubtract(
+  base: string[],
+  lists: string[][],
+  options: ParseOptions = {},
+): BlockReport[] {
+  return toReports(
+    subtractRangeLists(
+      parseList(base, options),
+      lists.flatMap((list) => parseList(list, options)),
+    ),
+  );
+}
+
+/**
+ * Addresses in none of the lists, within the whole IPv4/IPv6 space or
+ * options.within
+ */
+export function setComplement(
+  lists: string[][],
+  options: ComplementOptions = {},
+): BlockReport[] {
+  const excluded = lists.flatMap((list) => parseList(list, options));
+
+  let universe: AddressRange[];
+  if (options.within) {
+    universe = parseList(options.within, options);
+  } else {
+    const versions = [...new Set(excluded.map((range) => range.version))];
+    universe = (versions.length > 0 ? versions : [options.ipv6 ? 6 : 4]).map(
+      (version) => addressSpace(version as IPVersion),
+    );
+  }
+
+  if (options.public) {
+    excluded.push(...nonPublicSpace());
+  }
+
+  return toReports(subtractRangeLists(mergeRanges(universe), excluded));
+}
@@ -0,0 +1,445 @@
+/**
+ * Subnet API: prefix details, membership, splitting, planning, aggregation
+ * and overlap detection
+ */
+
+import { cidrToSubnetMask } from "ip-navigator/conversion";
+
+import {
+  calculateBroadcastAddress,
+  calculateNetworkAddress,
+  getSubnetInfo,
+} from "ip-navigator/subnet";
+
+import { isIPAddressInSubnet } from "ip-navigator/operation";
+
+import {
+  IPVersion,
+  ParseOptions,
+  formatIP,
+  fromBigInt,
+  getPrefixDetails,
+  isInPrefix,
+  lastOf,
+  matchesWildcard,
+  networkOf,
+  parseAddress,
+  parsePrefixLength,
+  prefixToMask,
+} from "@/lib/utils/address.js";
+
+import {
+  BlockReport,
+  RangeRelation,
+  aggregateRanges,
+  describeBlock,
+  formatCIDR,
+  intersectRanges,
+  overlappingPairs,
+  parseAddressSpec,
+  parseCIDR,
+  parseSubnetSpec,
+  planVLSM,
+  rangeRelation,
+  rangeSize,
+  requirePrefix,
+  splitBlock,
+  splitCount,
+  supernetOf,
+} from "@/lib/utils/cidr.js";
+
+import { InvalidInputError } from "@/lib/utils/errors.js";
+
+export interface SubnetReport {
+  address: string;
+  version: IPVersion;
+  subnetMask: string;
+  /** Inverse of the subnet mask, as Cisco ACLs and OSPF expect */
+  wildcardMask: string;
+  prefix: number;
+  networkAddress: string;
+  /** Null for IPv6, which has no broadcast address */
+  broadcastAddress: string | null;
+  lastAddress: string;
+  firstUsableHost: string;
+  lastUsableHost: string;
+  totalHosts: bigint;
+  usableHosts: bigint;
+}
+
+export interface NetworkAddressReport {
+  address: string;
+  mask: string;
+  networkAddress: string;
+}
+
+export interface BroadcastAddressReport {
+  address: string;
+  mask: string;
+  /** Null for IPv6, where lastAddress is reported instead */
+  broadcastAddress: string | null;
+  lastAddress: string;
+}
+
+export interface MembershipReport {
+  address: string;
+  network: string;
+  mask: string;
+  /** The mask as a wildcard: the bits that may differ from the network */
+  wildcardMask: string;
+  /** False for a non-contiguous wildcard mask, which matches bit by bit */
+  contiguous: boolean;
+  inSubnet: boolean;
+}
+
+export interface SplitOptions extends ParseOptions {
+  /** Skip this many children without generating them */
+  offset?: bigint;
+  limit?: bigint;
+}
+
+export interface AggregateOptions extends ParseOptions {
+  /** Return the single smallest prefix covering every entry */
+  supernet?: boolean;
+}
+
+export interface SubnetSplit {
+  network: string;
+  newPrefix: number;
+  count: bigint;
+  usableHostsEach: bigint;
+  /** Child subnets from the offset on, generated lazily on every iteration */
+  subnets: Iterable<BlockReport>;
+}
+
+export interface VLSMRow extends BlockReport {
+  type: "allocation" | "free";
+  /** Requested host count; null for free blocks */
+  requested: number | null;
+}
+
+export interface VLSMReport {
+  network: string;
+  totalAddresses: bigint;
+  allocatedAddresses: bigint;
+  rows: VLSMRow[];
+}
+
+export interface OverlapReport {
+  a: string;
+  b: string;
+  overlaps: boolean;
+  relation: RangeRelation;
+  intersectionStart: string | null;
+  intersectionEnd: string | null;
+  intersectionSize: bigint;
+}
+
+/**
+ * A mask of a prefix length as an address string
+ */
+function formatMask(value: bigint, version: IPVersion): string {
+  return formatIP(fromBigInt(value, version));
+}
+
+/**
+ * Subnet details for an address and a mask or prefix length. The address
+ * may carry its mask instead ("10.0.0.1/24", "10.0.0.1/255.255.255.0").
+ */
+export function subnetInfo(
+  address: string,
+  mask?: string | number,
+  options: ParseOptions = {},
+): SubnetReport {
+  const spec = parseSubnetSpec(address, mask?.toString(), options);
+  const prefix = requirePrefix(spec);
+  const version = spec.address.version;
+  const host = formatIP(spec.address);
+
+  if (version === 6) {
+    const details = getPrefixDetails(host, prefix);
+    return {
+      address: host,
+      version,
+      subnetMask: formatMask(prefixToMask(prefix, 6), 6),
+      wildcardMask: formatMask(spec.wildcard, 6),
+      prefix,
+      networkAddress: details.networkAddress,
+      broadcastAddress: null,
+      lastAddress: details.lastAddress,
+      firstUsableHost: details.firstUsableHost,
+      lastUsableHost: details.lastUsableHost,
+      totalHosts: details.totalHosts,
+      usableHosts: details.usableHosts,
+    };
+  }
+
+  const subnetMask = cidrToSubnetMask(prefix);
+  const info = getSubnetInfo(host, subnetMask);
+  return {
+    address: host,
+    version,
+    subnetMask,
+    wildcardMask: formatMask(spec.wildcard, 4),
+    prefix,
+    networkAddress: info.networkAddress,
+    broadcastAddress: info.broadcastAddress,
+    lastAddress: info.broadcastAddress,
+    firstUsableHost: info.firstUsableHost,
+    lastUsableHost: info.lastUsableHost,
+    totalHosts: BigInt(info.totalHosts),
+    usableHosts: BigInt(info.usableHosts),
+  };
+}
+
+/**
+ * Network address of an address under a mask, in any notation
+ * parseSubnetSpec accepts
+ */
+export function networkAddress(
+  address: string,
+  mask?: string,
+  options: ParseOptions = {},
+): NetworkAddressReport {
+  const spec = parseSubnetSpec(address, mask, options);
+  const prefix = requirePrefix(spec);
+  const host = formatIP(spec.address);
+
+  return {
+    address: host,
+    mask: spec.mask,
+    networkAddress:
+      spec.address.version === 6
+        ? formatIP(networkOf(spec.address, prefix))
+        : calculateNetworkAddress(host, cidrToSubnetMask(prefix)),
+  };
+}
+
+/**
+ * Broadcast address of an address under a mask. IPv6 has no broadcast, so
+ * only the last address of the prefix is reported.
+ */
+export function broadcastAddress(
+  address: string,
+  mask?: string,
+  options: ParseOptions = {},
+): BroadcastAddressReport {
+  const spec = parseSubnetSpec(address, mask, options);
+  const prefix = requirePrefix(spec);
+  const host = formatIP(spec.address);
+
+  if (spec.address.version === 6) {
+    return {
+      address: host,
+      mask: spec.mask,
+      broadcastAddress: null,
+      lastAddress: formatIP(lastOf(spec.address, prefix)),
+    };
+  }
+
+  const broadcast = calculateBroadcastAddress(host, cidrToSubnetMask(prefix));
+  return {
+    address: host,
+    mask: spec.mask,
+    broadcastAddress: broadcast,
+    lastAddress: broadcast,
+  };
+}
+
+/**
+ * Whether an address belongs to network/mask. The network may carry its
+ * mask ("10.0.0.0/24"), and the mask may also be a wildcard mask, including
+ * a non-contiguous one, which is matched bit by bit as Cisco ACLs do.
+ */
+export function inSubnet(
+  address: string,
+  network: string,
+  mask?: string,
+  options: ParseOptions = {},
+): MembershipReport {
+  const { ip } = parseAddress(address, options);
+  const spec = parseSubnetSpec(network, mask, options);
+  const version = spec.address.version;
+  if (ip.version !== version) {
+    throw new InvalidInputError(
+      `${address} and ${formatIP(spec.address)} are not the same IP version`,
+    );
+  }
+
+  const base = {
+    address: formatIP(ip),
+    network: formatIP(spec.address),
+    mask: spec.mask,
+    wildcardMask: formatMask(spec.wildcard, version),
+  };
+  if (spec.prefix === null) {
+    return {
+      ...base,
+      contiguous: false,
+      inSubnet: matchesWildcard(ip, spec.address, spec.wildcard),
+    };
+  }
+
+  return {
+    ...base,
+    contiguous: true,
+    inSubnet:
+      version === 6
+        ? isInPrefix(ip, spec.address, spec.prefix)
+        : isIPAddressInSubnet(
+            base.address,
+            base.network,
+            cidrToSubnetMask(spec.prefix),
+          ),
+  };
+}
+
+/**
+ * Splits a network (CIDR notation) into child subnets of a longer prefix.
+ * `offset` and `limit` page through the children without generating the
+ * skipped ones.
+ */
+export function splitSubnet(
+  network: string,
+  prefix: string | number,
+  options: SplitOptions = {},
+): SubnetSplit {
+  const block = parseCIDR(network, options);
+  const newPrefix = parsePrefixLength(
+    prefix.toString().replace(/^\//, ""),
+    block.network.version,
+  );
+  if (newPrefix < block.prefix) {
+    throw new InvalidInputError(
+      `New prefix /${newPrefix} must not be shorter than /${block.prefix}`,
+    );
+  }
+
+  const count = splitCount(block, newPrefix);
+  const offset = options.offset ?? 0n;
+  if (offset < 0n || offset >= count) {
+    throw new InvalidInputError(
+      `Offset ${offset} is past the last subnet (${count.toLocaleString()} subnets)`,
+    );
+  }
+
+  return {
+    network: formatCIDR(block),
+    newPrefix,
+    count,
+    usableHostsEach: describeBlock({
+      network: block.network,
+      prefix: newPrefix,
+    }).usableHosts,
+    subnets: {
+      *[Symbol.iterator]() {
+        for (const child of splitBlock(
+          block,
+          newPrefix,
+          offset,
+          options.limit,
+        )) {
+          yield describeBlock(child);
+        }
+      },
+    },
+  };
+}
+
+/**
+ * Plans right-sized subnets (largest first) for a list of host counts,
+ * followed by the blocks left free
+ */
+export function planSubnets(
+  network: string,
+  hosts: Array<number | string>,
+  options: ParseOptions = {},
+): VLSMReport {
+  const block = parseCIDR(network, options);
+
+  const counts = hosts.map((value) => value.toString().trim());
+  const invalid = counts.find((value) => !/^[1-9]\d*$/.test(value));
+  if (invalid !== undefined) {
+    throw new InvalidInputError(
+      `Invalid host count: ${invalid}`,
+      "Expected a comma-separated list of positive integers",
+    );
+  }
+
+  const plan = planVLSM(block, counts.map(Number));
+  const rows: VLSMRow[] = [
+    ...plan.allocations.map(({ requested, block }) => ({
+      type: "allocation" as const,
+      requested,
+      ...describeBlock(block),
+    })),
+    ...plan.free.map((block) => ({
+      type: "free" as const,
+      requested: null,
+      ...describeBlock(block),
+    })),
+  ];
+
+  return {
+    network: formatCIDR(block),
+    totalAddresses: describeBlock(block).totalHosts,
+    allocatedAddresses: rows
+      .filter((row) => row.type === "allocation")
+      .reduce((sum, row) => sum + row.totalHosts, 0n),
+    rows,
+  };
+}
+
+/**
+ * Collapses CIDRs, ranges (start-end) and addresses into the minimal set of
+ * prefixes, or into the single smallest covering prefix with `supernet`
+ */
+export function aggregate(
+  entries: string[],
+  options: AggregateOptions = {},
+): BlockReport[] {
+  const ranges = entries.map((entry) => parseAddressSpec(entry, options));
+  const blocks = options.supernet
+    ? [supernetOf(ranges)]
+    : aggregateRanges(ranges);
+  return blocks.map((block) => describeBlock(block));
+}
+
+/**
+ * Relation and shared addresses of two CIDRs or ranges
+ */
+export function overlap(
+  first: string,
+  second: string,
+  options: ParseOptions = {},
+): OverlapReport {
+  const rangeA = parseAddressSpec(first, options);
+  const rangeB = parseAddressSpec(second, options);
+  const intersection = intersectRanges(rangeA, rangeB);
+  return {
+    a: first,
+    b: second,
+    overlaps: intersection !== null,
+    relation: rangeRelation(rangeA, rangeB),
+    intersectionStart: intersection
+      ? formatIP({ version: intersection.version, value: intersection.start })
+      : null,
+    intersectionEnd: intersection
+      ? formatIP({ version: intersection.version, value: intersection.end })
+      : null,
+    intersectionSize: intersection ? rangeSize(intersection) : 0n,
+  };
+}
+
+/**
+ * Every pair of overlapping entries in a list, in input order
+ */
+export function conflicts(
+  entries: string[],
+  options: ParseOptions = {},
+): OverlapReport[] {
+  const ranges = entries.map((entry) => parseAddressSpec(entry, options));
+  return overlappingPairs(ranges).map(([i, j]) =>
+    overlap(entries[i], entries[j], options),
+  );
+}
@@ -0,0 +1,69 @@
+/**
+ * Validation API: the checks behind the validate-* commands
+ */
+
+import { isValidSubnetMask, isValidCIDR } from "ip-navigator/validation";
+
+import {
+  IPVersion,
+  getIPVersion,
+  maskToPrefix,
+  parseIP,
+} from "@/lib/utils/address.js";
+
+export interface IPValidation {
+  address: string;
+  valid: boolean;
+  version: IPVersion | null;
+}
+
+export interface MaskValidation {
+  mask: string;
+  valid: boolean;
+}
+
+export interface CIDRValidation {
+  cidr: string;
+  valid: boolean;
+}
+
+/**
+ * Checks an IPv4 or IPv6 address
+ */
+export function validateIP(address: string): IPValidation {
+  const version = getIPVersion(address);
+  return { address, valid: version !== null, version };
+}
+
+/**
+ * Checks a subnet mask (contiguous IPv4 or IPv6 netmask)
+ */
+export function validateMask(mask: string): MaskValidation {
+  const valid =
+    getIPVersion(mask) === 6
+      ? maskToPrefix(parseIP(mask)) !== null
+      : isValidSubnetMask(mask);
+  return { mask, valid };
+}
+
+/**
+ * Checks CIDR notation (IPv4 /0-32 or IPv6 /0-128)
+ */
+export function validateCIDR(cidr: string): CIDRValidation {
+  const [address, prefix, ...rest] = cidr.split("/");
+  const valid =
+    getIPVersion(address) === 6
+      ? rest.length === 0 &&
+        prefix !== undefined &&
+        /^\d+$/.test(prefix) &&
+        parseInt(prefix, 10) <= 128
+      : isValidCIDR(cidr);
+  return { cidr, valid };
+}
+
+/**
+ * Checks several addresses at once
+ */
+export function validateBatch(addresses: string[]): IPValidation[] {
+  return addresses.map((address) => validateIP(address));
+}
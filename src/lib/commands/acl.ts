@@ -0,0 +1,106 @@
+import { Command, Option } from "commander";
+
+import {
+  ACL_ACTIONS,
+  ACL_DIRECTIONS,
+  ACL_PROTOCOLS,
+  ACL_TARGETS,
+  AclOptions,
+  aclRules,
+} from "@/lib/api/acl.js";
+
+import { UsageError } from "@/lib/utils/errors.js";
+
+import { collectEntries, parseOptions } from "@/lib/utils/input.js";
+
+import {
+  fail,
+  isStructuredOutput,
+  printStructured,
+  reportError,
+  writeLine,
+} from "@/lib/utils/output.js";
+
+/**
+ * Registers the firewall rule generator to the CLI program
+ */
+export function registerAclCommand(program: Command): void {
+  program
+    .command("acl [entries...]")
+    .description(
+      "Generate firewall rules (iptables, nftables, Cisco, Juniper, AWS security group, pf) for CIDRs, ranges and addresses (reads stdin when no entries are given)",
+    )
+    .addOption(
+      new Option("-t, --target <platform>", "Rule syntax to generate")
+        .choices(ACL_TARGETS)
+        .makeOptionMandatory(),
+    )
+    .addOption(
+      new Option("-a, --action <action>", "Permit or deny the addresses")
+        .choices(ACL_ACTIONS)
+        .default("permit"),
+    )
+    .addOption(
+      new Option(
+        "-d, --direction <direction>",
+        "Match sources of inbound (in) or destinations of outbound (out) traffic",
+      )
+        .choices(ACL_DIRECTIONS)
+        .default("in"),
+    )
+    .addOption(
+      new Option("-P, --protocol <protocol>", "Protocol to match")
+        .choices(ACL_PROTOCOLS)
+        .default("any"),
+    )
+    .option(
+      "--port <port>",
+      "Destination port or range, e.g. 443 or 1000-2000 (tcp and udp)",
+    )
+    .option(
+      "-n, --name <name>",
+      "Access list, filter, table or rule description name",
+      "ipnav",
+    )
+    .option(
+      "-m, --merge",
+      "Merge overlapping and adjacent entries into minimal prefixes first",
+    )
+    .addHelpText(
+      "after",
+      `
+Ranges (start-end) are decomposed into prefixes. Cisco IPv4 rules use
+wildcard masks. The global --format option still selects structured
+output (the list of prefixes with their wildcard masks).
+
+Examples:
+  $ ipnav acl -t iptables 10.0.0.0/8 192.0.2.10-192.0.2.20
+  $ ipnav acl -t cisco --action deny --merge < blocklist.txt
+  $ ipnav acl -t aws-sg -P tcp --port 443 203.0.113.0/24 2001:db8::/32`,
+    )
+    .action(async (entries: string[], options: AclOptions) => {
+      try {
+        const inputs = await collectEntries(entries);
+        if (inputs.length === 0) {
+          fail(
+            new UsageError(
+              "No entries provided",
+              "Pass CIDRs, ranges or addresses as arguments or on stdin",
+            ),
+          );
+        }
+
+        const report = aclRules(inputs, { ...options, ...parseOptions() });
+
+        // Structured output mode (--format)
+        if (isStructuredOutput()) {
+          printStructured(report.prefixes);
+          return;
+        }
+
+        await writeLine(report.rules);
+      } catch (error) {
+        reportError(error, "Error generating ACL");
+      }
+    });
+}
@@ -0,0 +1,393 @@
+import { Argument, Command, Option } from "commander";
+
+import { reportError, writeLine } from "@/lib/utils/output.js";
+
+const SHELLS = ["bash", "zsh", "fish"];
+
+/** Values offered for options that take a prefix length */
+const PREFIXES = Array.from({ length: 33 }, (_, prefix) => prefix.toString());
+
+/**
+ * What an option accepts: nothing (a flag), a file, a fixed word list, or
+ * a free value the shell cannot guess
+ */
+type OptionValues = null | "file" | "any" | string[];
+
+interface OptionSpec {
+  flags: string[];
+  description: string;
+  values: OptionValues;
+}
+
+interface CommandSpec {
+  /** Canonical names from the program down, e.g. ["set", "union"] */
+  path: string[];
+  /** Name followed by its aliases */
+  names: string[];
+  description: string;
+  options: OptionSpec[];
+  commands: CommandSpec[];
+  /** Choices of the first positional argument, if it has any */
+  argumentValues: string[];
+}
+
+/**
+ * Completion values of an option, from its choices or its value placeholder
+ */
+function optionValues(option: Option): OptionValues {
+  if (!option.required && !option.optional) {
+    return null;
+  }
+  if (option.argChoices) {
+    return option.argChoices;
+  }
+  const placeholder = option.flags.match(/[<[](\w+)[>\]]/)?.[1];
+  if (placeholder === "file") {
+    return "file";
+  }
+  if (placeholder === "prefix") {
+    return PREFIXES;
+  }
+  return "any";
+}
+
+/**
+ * Snapshot of a command and everything registered below it
+ */
+function describeCommand(command: Command, path: string[]): CommandSpec {
+  const help = command.createHelp();
+  const [firstArgument] = command.registeredArguments as Argument[];
+
+  return {
+    path,
+    names: [command.name(), ...command.aliases()],
+    description: command.description(),
+    options: help.visibleOptions(command).map((option) => ({
+      flags: [option.short, option.long].filter(
+        (flag): flag is string => flag !== undefined,
+      ),
+      description: option.description,
+      values: optionValues(option),
+    })),
+    commands: help
+      .visibleCommands(command)
+      .map((child) => describeCommand(child, [...path, child.name()])),
+    argumentValues: firstArgument?.argChoices ?? [],
+  };
+}
+
+/**
+ * Every command of the tree, parents before children
+ */
+function flatten(spec: CommandSpec): CommandSpec[] {
+  return [spec, ...spec.commands.flatMap((child) => flatten(child))];
+}
+
+/**
+ * Single-quotes a string for bash, zsh and fish
+ */
+function quote(text: string): string {
+  return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Key of a command in the generated case statements ("" for the program)
+ */
+function pathKey(spec: CommandSpec): string {
+  return spec.path.join(" ");
+}
+
+/**
+ * Case statement lines that walk the typed words down to a command
+ */
+function resolveCases(specs: CommandSpec[], indent: string): string[] {
+  return specs.flatMap((spec) =>
+    spec.commands.map((child) => {
+      const patterns = child.names
+        .map((name) => `"${pathKey(spec)}:${name}"`)
+        .join("|");
+      return `${indent}${patterns}) cmd_path="${pathKey(child)}" ;;`;
+    }),
+  );
+}
+
+/**
+ * Case patterns matching "<command path>:<flag>" for an option; options of
+ * the program are global and match at every level
+ */
+function optionPatterns(spec: CommandSpec, option: OptionSpec): string {
+  return option.flags
+    .map((flag) =>
+      spec.path.length === 0 ? `*":${flag}"` : `"${pathKey(spec)}:${flag}"`,
+    )
+    .join("|");
+}
+
+/**
+ * Bash completion function, registered with `complete -F`
+ */
+function bashScript(root: CommandSpec): string {
+  const specs = flatten(root);
+
+  const valueCases = specs.flatMap((spec) =>
+    spec.options
+      .filter((option) => option.values !== null)
+      .map((option) => {
+        const reply =
+          option.values === "file"
+            ? `COMPREPLY=($(compgen -f -- "$cur"))`
+            : option.values === "any"
+              ? `COMPREPLY=()`
+              : `COMPREPLY=($(compgen -W "${(option.values as string[]).join(" ")}" -- "$cur"))`;
+        return `    ${optionPatterns(spec, option)}) ${reply}; return ;;`;
+      }),
+  );
+
+  const wordCases = specs.map((spec) => {
+    const words = [
+      ...spec.commands.flatMap((child) => child.names),
+      ...spec.argumentValues,
+    ];
+    const flags = spec.options.flatMap((option) => option.flags);
+    return [
+      `    "${pathKey(spec)}")`,
+      `      words="${words.join(" ")}"`,
+      `      flags="${flags.join(" ")}"`,
+      `      ;;`,
+    ].join("\n");
+  });
+
+  return `# bash completion for ${root.names[0]}
+# Generated by: ${root.names[0]} completion bash
+
+_${root.names[0]}() {
+  local cur="\${COMP_WORDS[COMP_CWORD]}"
+  local prev="\${COMP_WORDS[COMP_CWORD-1]}"
+  local cmd_path="" words="" flags="" i
+
+  # Walk the typed words down to the command being completed
+  for ((i = 1; i < COMP_CWORD; i++)); do
+    case "$cmd_path:\${COMP_WORDS[i]}" in
+${resolveCases(specs, "      ").join("\n")}
+    esac
+  done
+
+  # Values of the option before the cursor
+  case "$cmd_path:$prev" in
+${valueCases.join("\n")}
+  esac
+
+  case "$cmd_path" in
+${wordCases.join("\n")}
+  esac
+
+  if [[ "$cur" == -* ]]; then
+    COMPREPLY=($(compgen -W "$flags" -- "$cur"))
+  else
+    COMPREPLY=($(compgen -W "$words" -- "$cur"))
+  fi
+}
+
+complete -F _${root.names[0]} ${root.names[0]}
+`;
+}
+
+/**
+ * Zsh completion function, usable from $fpath or sourced directly
+ */
+function zshScript(root: CommandSpec): string {
+  const name = root.names[0];
+  const specs = flatten(root);
+
+  const valueCases = specs.flatMap((spec) =>
+    spec.options
+      .filter((option) => option.values !== null)
+      .map((option) => {
+        const action =
+          option.values === "file"
+            ? "_files"
+            : option.values === "any"
+              ? `_message ${quote(option.description)}`
+              : `compadd -- ${(option.values as string[]).join(" ")}`;
+        return `    ${optionPatterns(spec, option)}) ${action}; return ;;`;
+      }),
+  );
+
+  const wordCases = specs.map((spec) => {
+    const commands = [
+      ...spec.commands.flatMap((child) =>
+        child.names.map((alias) => quote(`${alias}:${child.description}`)),
+      ),
+      ...spec.argumentValues.map((value) => quote(value)),
+    ];
+    const options = spec.options.flatMap((option) =>
+      option.flags.map((flag) => quote(`${flag}:${option.description}`)),
+    );
+    return [
+      `    "${pathKey(spec)}")`,
+      `      commands=(${commands.join(" ")})`,
+      `      options=(${options.join(" ")})`,
+      `      ;;`,
+    ].join("\n");
+  });
+
+  return `#compdef ${name}
+# zsh completion for ${name}
+# Generated by: ${name} completion zsh
+
+_${name}() {
+  local cmd_path="" i
+  local -a commands options
+
+  # Walk the typed words down to the command being completed
+  for ((i = 2; i < CURRENT; i++)); do
+    case "$cmd_path:\${words[i]}" in
+${resolveCases(specs, "      ").join("\n")}
+    esac
+  done
+
+  # Values of the option before the cursor
+  case "$cmd_path:\${words[CURRENT-1]}" in
+${valueCases.join("\n")}
+  esac
+
+  case "$cmd_path" in
+${wordCases.join("\n")}
+  esac
+
+  if [[ "\${words[CURRENT]}" == -* ]]; then
+    _describe -t options 'option' options
+  else
+    _describe -t commands 'command' commands
+  fi
+}
+
+if [ "$funcstack[1]" = "_${name}" ]; then
+  _${name} "$@"
+else
+  compdef _${name} ${name}
+fi
+`;
+}
+
+/**
+ * Fish `complete` rules, one per command name, alias and option
+ */
+function fishScript(root: CommandSpec): string {
+  const name = root.names[0];
+  const lines = [
+    `# fish completion for ${name}`,
+    `# Generated by: ${name} completion fish`,
+    "",
+    `complete -c ${name} -f`,
+  ];
+
+  // A command is active once its ancestors and its own name (or an alias)
+  // were typed and none of its subcommands has been yet
+  const condition = (ancestors: CommandSpec[], spec: CommandSpec): string => {
+    const seen = [...ancestors.slice(1), spec]
+      .filter((entry) => entry.path.length > 0)
+      .map((entry) => `__fish_seen_subcommand_from ${entry.names.join(" ")}`);
+    const children = spec.commands.flatMap((child) => child.names);
+    const unseen =
+      children.length > 0
+        ? [`not __fish_seen_subcommand_from ${children.join(" ")}`]
+        : [];
+    const checks =
+      spec.path.length === 0 ? ["__fish_use_subcommand"] : [...seen, ...unseen];
+    return quote(checks.join("; and "));
+  };
+
+  const visit = (spec: CommandSpec, ancestors: CommandSpec[]) => {
+    const active = condition(ancestors, spec);
+    lines.push("");
+
+    for (const child of spec.commands) {
+      for (const alias of child.names) {
+        lines.push(
+          `complete -c ${name} -n ${active} -a ${quote(alias)} -d ${quote(child.description)}`,
+        );
+      }
+    }
+    if (spec.argumentValues.length > 0) {
+      lines.push(
+        `complete -c ${name} -n ${active} -a ${quote(spec.argumentValues.join(" "))}`,
+      );
+    }
+
+    // Options stay available after positional arguments, so they only
+    // require the command itself; program options are global
+    const scope =
+      spec.path.length === 0
+        ? ""
+        : ` -n ${quote(
+            [...ancestors.slice(1), spec]
+              .map(
+                (entry) =>
+                  `__fish_seen_subcommand_from ${entry.names.join(" ")}`,
+              )
+              .join("; and "),
+          )}`;
+    for (const option of spec.options) {
+      const flags = option.flags
+        .map((flag) =>
+          flag.startsWith("--") ? `-l ${flag.slice(2)}` : `-s ${flag.slice(1)}`,
+        )
+        .join(" ");
+      const values =
+        option.values === null
+          ? ""
+          : option.values === "file"
+            ? " -r -F"
+            : option.values === "any"
+              ? " -x"
+              : ` -x -a ${quote(option.values.join(" "))}`;
+      lines.push(
+        `complete -c ${name}${scope} ${flags}${values} -d ${quote(option.description)}`,
+      );
+    }
+
+    for (const child of spec.commands) {
+      visit(child, [...ancestors, spec]);
+    }
+  };
+
+  visit(root, []);
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Registers the completion script command to the CLI program
+ */
+export function registerCompletionCommand(program: Command): void {
+  program
+    .command("completion")
+    .description("Print a shell completion script for ipnav")
+    .addArgument(new Argument("<shell>", "Target shell").choices(SHELLS))
+    .addHelpText(
+      "after",
+      `
+Installation:
+  bash  echo 'eval "$(ipnav completion bash)"' >> ~/.bashrc
+  zsh   echo 'source <(ipnav completion zsh)' >> ~/.zshrc
+        (or save it as _ipnav in a directory on $fpath)
+  fish  ipnav completion fish > ~/.config/fish/completions/ipnav.fish
+
+The script is generated from the registered commands, so regenerate it
+after upgrading ipnav.`,
+    )
+    .action(async (shell: string) => {
+      try {
+        const root = describeCommand(program, []);
+        const script =
+          shell === "bash"
+            ? bashScript(root)
+            : shell === "zsh"
+              ? zshScript(root)
+              : fishScript(root);
+        await writeLine(script.trimEnd());
+      } catch (error) {
+        reportError(error, "Error generating completion script");
+      }
+    });
+}
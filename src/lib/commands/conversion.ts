@@ -1,15 +1,95 @@
 import { Command } from "commander";
 
+import { ipToBinary } from "ip-navigator/conversion";
+
+import {
+  cidrRange,
+  cidrToMask,
+  cidrToWildcard,
+  compress,
+  convert,
+  expand,
+  fromBinary,
+  fromInteger,
+  maskToCidr,
+  ptr,
+  ptrZone,
+  ReverseZone,
+  toBinary,
+  toInteger,
+  wildcardToCidr,
+  ZoneRecord,
+} from "@/lib/api/conversion.js";
+
+import { expandIPv6, getIPVersion } from "@/lib/utils/address.js";
+
+import { UsageError } from "@/lib/utils/errors.js";
+
 import {
-  ipToBinary,
-  binaryToIP,
-  ipToInteger,
-  integerToIP,
-  cidrToSubnetMask,
-  subnetMaskToCIDR,
-} from "ip-navigator/conversion";
+  fail,
+  isStructuredOutput,
+  printStructured,
+  reportError,
+  writeLine,
+} from "@/lib/utils/output.js";
 
-import { isValidIPAddress, isValidSubnetMask } from "ip-navigator/validation";
+import { batchSource, missingArgument, runBatch } from "@/lib/utils/batch.js";
+
+import { parseOptions } from "@/lib/utils/input.js";
+
+const INPUT_OPTION_DESCRIPTION =
+  "Read entries from a file, one per line ('-' for stdin)";
+
+/**
+ * Parses a non-negative integer option
+ */
+function parseIntegerOption(value: string, name: string): number {
+  if (!/^\d+$/.test(value)) {
+    fail(new UsageError(`${name} must be a non-negative integer`));
+  }
+  return Number(value);
+}
+
+/**
+ * Zone file lines for records, with the owner names in one column
+ */
+function recordLines(records: ZoneRecord[]): string[] {
+  const width = Math.max(...records.map((record) => record.name.length), 1);
+  return records.map(
+    (record) =>
+      `${record.name.padEnd(width)}  IN  ${record.type.padEnd(5)} ${record.value}`,
+  );
+}
+
+/**
+ * BIND zone file: origin, TTL, SOA and NS records, then the PTR records
+ */
+function zoneFile(zone: ReverseZone): string[] {
+  const [primary] = zone.nameServers;
+  const timer = (value: number, label: string) =>
+    `        ${value.toString().padEnd(12)} ; ${label}`;
+  return [
+    `; Reverse zone for ${zone.cidr}`,
+    ...(zone.classless
+      ? [
+          `; RFC 2317 classless zone delegated from ${zone.parentOrigin}`,
+          `; (print the parent zone records with --delegation)`,
+        ]
+      : []),
+    `$ORIGIN ${zone.origin}`,
+    `$TTL ${zone.ttl}`,
+    `@  IN  SOA   ${primary} ${zone.contact} (`,
+    timer(zone.serial, "serial"),
+    timer(3600, "refresh"),
+    timer(900, "retry"),
+    timer(1209600, "expire"),
+    timer(zone.ttl, "negative caching TTL"),
+    `        )`,
+    ...zone.nameServers.map((server) => `@  IN  NS    ${server}`),
+    "",
+    ...recordLines(zone.records),
+  ];
+}
 
 /**
  * Registers all IP conversion commands to the CLI program
@@ -17,271 +97,840 @@ import { isValidIPAddress, isValidSubnetMask } from "ip-navigator/validation";
 export function registerConversionCommands(program: Command): void {
   // IP to Binary conversion
   program
-    .command("to-binary <address>")
+    .command("to-binary [address]")
     .alias("bin")
     .description("Convert IP address to binary representation")
-    .option("-s, --spaces", "Use spaces instead of dots as separators")
+    .option("-s, --spaces", "Use spaces instead of dots/colons as separators")
+    .option("-i, --input <file>", INPUT_OPTION_DESCRIPTION)
     .option("-p, --plain", "Output only the binary value")
     .action(
-      (address: string, options: { spaces?: boolean; plain?: boolean }) => {
+      async (
+        address: string | undefined,
+        options: { spaces?: boolean; input?: string; plain?: boolean },
+      ) => {
+        const source = batchSource(address, options);
+        if (source !== null) {
+          await runBatch(
+            source,
+            {
+              evaluate: (entry) =>
+                toBinary(entry, { ...options, ...parseOptions() }),
+              plain: (result) => result.binary,
+            },
+            options,
+          );
+          return;
+        }
+        if (address === undefined) {
+          missingArgument("address");
+        }
+
         try {
-          if (!isValidIPAddress(address)) {
-            console.error(`❌ Invalid IP address: ${address}`);
-            process.exit(1);
-          }
+          const result = toBinary(address, { ...options, ...parseOptions() });
 
-          const binary = ipToBinary(address);
-          const formatted = options.spaces
-            ? binary.replace(/\./g, " ")
-            : binary;
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(result);
+            return;
+          }
 
           // Plain output mode
           if (options.plain) {
-            console.log(formatted);
+            console.log(result.binary);
             return;
           }
 
-          console.log(`IP Address: ${address}`);
-          console.log(`Binary:     ${formatted}`);
+          console.log(`IP Address: ${result.address}`);
+          console.log(`Binary:     ${result.binary}`);
         } catch (error) {
-          console.error(
-            `❌ Error converting to binary: ${
-              error instanceof Error ? error.message : String(error)
-            }`,
-          );
-          process.exit(1);
+          reportError(error, "Error converting to binary");
         }
       },
     );
 
   // Binary to IP conversion
   program
-    .command("from-binary <binary>")
+    .command("from-binary [binary]")
     .alias("fbin")
     .description(
-      "Convert binary to IP address (format: 11000000.10101000.00000001.00000001)",
+      "Convert binary to IP address (format: 11000000.10101000.00000001.00000001, or 128 bits for IPv6)",
     )
+    .option("-i, --input <file>", INPUT_OPTION_DESCRIPTION)
     .option("-p, --plain", "Output only the IP address")
-    .action((binary: string, options: { plain?: boolean }) => {
-      try {
-        // Allow both dot-separated and space-separated binary
-        const normalizedBinary = binary.replace(/\s+/g, ".");
-        const ip = binaryToIP(normalizedBinary);
-
-        // Plain output mode
-        if (options.plain) {
-          console.log(ip);
+    .action(
+      async (
+        binary: string | undefined,
+        options: { input?: string; plain?: boolean },
+      ) => {
+        const source = batchSource(binary, options);
+        if (source !== null) {
+          await runBatch(
+            source,
+            { evaluate: fromBinary, plain: (result) => result.address },
+            options,
+          );
           return;
         }
+        if (binary === undefined) {
+          missingArgument("binary");
+        }
+
+        try {
+          const result = fromBinary(binary);
 
-        console.log(`Binary:     ${normalizedBinary}`);
-        console.log(`IP Address: ${ip}`);
-      } catch (error) {
-        console.error(
-          `❌ Error converting from binary: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-        );
-        console.error(
-          "Expected format: 11000000.10101000.00000001.00000001 or space-separated",
-        );
-        process.exit(1);
-      }
-    });
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(result);
+            return;
+          }
+
+          // Plain output mode
+          if (options.plain) {
+            console.log(result.address);
+            return;
+          }
+
+          console.log(`Binary:     ${result.binary}`);
+          console.log(`IP Address: ${result.address}`);
+        } catch (error) {
+          reportError(error, "Error converting from binary");
+        }
+      },
+    );
 
   // IP to Integer conversion
   program
-    .command("to-integer <address>")
+    .command("to-integer [address]")
     .alias("int")
-    .description("Convert IP address to 32-bit integer")
+    .description(
+      "Convert IP address to integer (32-bit for IPv4, 128-bit for IPv6)",
+    )
     .option("-h, --hex", "Display result in hexadecimal")
+    .option("-i, --input <file>", INPUT_OPTION_DESCRIPTION)
     .option("-p, --plain", "Output only the integer value")
-    .action((address: string, options: { hex?: boolean; plain?: boolean }) => {
-      try {
-        if (!isValidIPAddress(address)) {
-          console.error(`❌ Invalid IP address: ${address}`);
-          process.exit(1);
+    .action(
+      async (
+        address: string | undefined,
+        options: { hex?: boolean; input?: string; plain?: boolean },
+      ) => {
+        const source = batchSource(address, options);
+        if (source !== null) {
+          await runBatch(
+            source,
+            {
+              evaluate: (entry) => toInteger(entry, parseOptions()),
+              plain: (result) => (options.hex ? result.hex : result.integer),
+            },
+            options,
+          );
+          return;
+        }
+        if (address === undefined) {
+          missingArgument("address");
         }
 
-        const integer = ipToInteger(address);
+        try {
+          const result = toInteger(address, parseOptions());
 
-        // Plain output mode
-        if (options.plain) {
-          if (options.hex) {
-            console.log(`0x${integer.toString(16).toUpperCase()}`);
-          } else {
-            console.log(integer);
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(result);
+            return;
+          }
+
+          // Plain output mode
+          if (options.plain) {
+            console.log(options.hex ? result.hex : result.integer);
+            return;
           }
-          return;
-        }
 
-        console.log(`IP Address: ${address}`);
-        console.log(`Integer:    ${integer}`);
+          console.log(`IP Address: ${result.address}`);
+          console.log(`Integer:    ${result.integer}`);
 
-        if (options.hex) {
-          console.log(`Hexadecimal: 0x${integer.toString(16).toUpperCase()}`);
+          if (options.hex) {
+            console.log(`Hexadecimal: ${result.hex}`);
+          }
+        } catch (error) {
+          reportError(error, "Error converting to integer");
         }
-      } catch (error) {
-        console.error(
-          `❌ Error converting to integer: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-        );
-        process.exit(1);
-      }
-    });
+      },
+    );
 
   // Integer to IP conversion
   program
-    .command("from-integer <number>")
+    .command("from-integer [number]")
     .alias("fint")
-    .description("Convert 32-bit integer to IP address")
+    .description(
+      "Convert an integer (decimal or 0x hex) to IP address (values above 2^32 - 1 become IPv6)",
+    )
+    .option("-6, --ipv6", "Always produce an IPv6 address")
+    .option("-i, --input <file>", INPUT_OPTION_DESCRIPTION)
     .option("-p, --plain", "Output only the IP address")
-    .action((number: string, options: { plain?: boolean }) => {
-      try {
-        const integer = parseInt(number, 10);
-
-        if (isNaN(integer) || integer < 0 || integer > 4294967295) {
-          console.error(`❌ Invalid integer: ${number}`);
-          console.error("Expected range: 0 to 4294967295 (2^32 - 1)");
-          process.exit(1);
+    .action(
+      async (
+        number: string | undefined,
+        options: { ipv6?: boolean; input?: string; plain?: boolean },
+      ) => {
+        const source = batchSource(number, options);
+        if (source !== null) {
+          await runBatch(
+            source,
+            {
+              evaluate: (entry) => fromInteger(entry, options),
+              plain: (result) => result.address,
+            },
+            options,
+          );
+          return;
+        }
+        if (number === undefined) {
+          missingArgument("number");
         }
 
-        const ip = integerToIP(integer);
+        try {
+          const result = fromInteger(number, options);
 
-        // Plain output mode
-        if (options.plain) {
-          console.log(ip);
-          return;
-        }
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(result);
+            return;
+          }
 
-        console.log(`Integer:    ${integer}`);
-        console.log(`IP Address: ${ip}`);
-      } catch (error) {
-        console.error(
-          `❌ Error converting from integer: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-        );
-        process.exit(1);
-      }
-    });
+          // Plain output mode
+          if (options.plain) {
+            console.log(result.address);
+            return;
+          }
+
+          console.log(`Integer:    ${result.integer}`);
+          console.log(`IP Address: ${result.address}`);
+        } catch (error) {
+          reportError(error, "Error converting from integer");
+        }
+      },
+    );
 
   // CIDR to Subnet Mask conversion
   program
-    .command("cidr-to-mask <prefix>")
+    .command("cidr-to-mask [prefix]")
     .alias("c2m")
     .description(
       "Convert CIDR prefix to subnet mask (e.g., 24 → 255.255.255.0)",
     )
+    .option("-6, --ipv6", "Produce an IPv6 netmask (prefix 0 to 128)")
+    .option("-i, --input <file>", INPUT_OPTION_DESCRIPTION)
     .option("-p, --plain", "Output only the subnet mask")
-    .action((prefix: string, options: { plain?: boolean }) => {
-      try {
-        const prefixNum = parseInt(prefix, 10);
-
-        if (isNaN(prefixNum) || prefixNum < 0 || prefixNum > 32) {
-          console.error(`❌ Invalid CIDR prefix: ${prefix}`);
-          console.error("Expected range: 0 to 32");
-          process.exit(1);
+    .action(
+      async (
+        prefix: string | undefined,
+        options: { ipv6?: boolean; input?: string; plain?: boolean },
+      ) => {
+        const source = batchSource(prefix, options);
+        if (source !== null) {
+          await runBatch(
+            source,
+            {
+              evaluate: (entry) => cidrToMask(entry, options),
+              plain: (result) => result.mask,
+            },
+            options,
+          );
+          return;
+        }
+        if (prefix === undefined) {
+          missingArgument("prefix");
         }
 
-        const mask = cidrToSubnetMask(prefixNum);
+        try {
+          const result = cidrToMask(prefix, options);
 
-        // Plain output mode
-        if (options.plain) {
-          console.log(mask);
-          return;
-        }
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(result);
+            return;
+          }
+
+          // Plain output mode
+          if (options.plain) {
+            console.log(result.mask);
+            return;
+          }
 
-        console.log(`CIDR Prefix:  /${prefixNum}`);
-        console.log(`Subnet Mask:  ${mask}`);
-        console.log(`Binary:       ${ipToBinary(mask)}`);
-      } catch (error) {
-        console.error(
-          `❌ Error converting CIDR to mask: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-        );
-        process.exit(1);
-      }
-    });
+          console.log(`CIDR Prefix:  /${result.prefix}`);
+          console.log(`Subnet Mask:  ${result.mask}`);
+          console.log(`Wildcard:     ${result.wildcard}`);
+          if (options.ipv6) {
+            console.log(`Expanded:     ${expandIPv6(result.mask)}`);
+          } else {
+            console.log(`Binary:       ${ipToBinary(result.mask)}`);
+          }
+        } catch (error) {
+          reportError(error, "Error converting CIDR to mask");
+        }
+      },
+    );
 
   // Subnet Mask to CIDR conversion
   program
-    .command("mask-to-cidr <mask>")
+    .command("mask-to-cidr [mask]")
     .alias("m2c")
     .description(
-      "Convert subnet mask to CIDR prefix (e.g., 255.255.255.0 → /24)",
+      "Convert subnet mask (or wildcard mask) to CIDR prefix (e.g., 255.255.255.0 → /24)",
     )
+    .option("-i, --input <file>", INPUT_OPTION_DESCRIPTION)
     .option("-p, --plain", "Output only the CIDR prefix (without /)")
-    .action((mask: string, options: { plain?: boolean }) => {
-      try {
-        if (!isValidSubnetMask(mask)) {
-          console.error(`❌ Invalid subnet mask: ${mask}`);
-          process.exit(1);
+    .action(
+      async (
+        mask: string | undefined,
+        options: { input?: string; plain?: boolean },
+      ) => {
+        const source = batchSource(mask, options);
+        if (source !== null) {
+          await runBatch(
+            source,
+            { evaluate: maskToCidr, plain: (result) => `${result.prefix}` },
+            options,
+          );
+          return;
+        }
+        if (mask === undefined) {
+          missingArgument("mask");
+        }
+
+        try {
+          const result = maskToCidr(mask);
+
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(result);
+            return;
+          }
+
+          // Plain output mode
+          if (options.plain) {
+            console.log(result.prefix);
+            return;
+          }
+
+          console.log(`Subnet Mask:  ${result.mask}`);
+          console.log(`Wildcard:     ${result.wildcard}`);
+          console.log(`CIDR Prefix:  /${result.prefix}`);
+          if (getIPVersion(mask) === 6) {
+            console.log(`Expanded:     ${expandIPv6(result.mask)}`);
+          } else {
+            console.log(`Binary:       ${ipToBinary(result.mask)}`);
+          }
+        } catch (error) {
+          reportError(error, "Error converting mask to CIDR");
+        }
+      },
+    );
+
+  // CIDR to wildcard mask conversion
+  program
+    .command("cidr-to-wildcard [prefix]")
+    .alias("c2w")
+    .description(
+      "Convert CIDR prefix to wildcard (inverse) mask (e.g., 24 → 0.0.0.255)",
+    )
+    .option("-6, --ipv6", "Produce an IPv6 wildcard mask (prefix 0 to 128)")
+    .option("-i, --input <file>", INPUT_OPTION_DESCRIPTION)
+    .option("-p, --plain", "Output only the wildcard mask")
+    .action(
+      async (
+        prefix: string | undefined,
+        options: { ipv6?: boolean; input?: string; plain?: boolean },
+      ) => {
+        const source = batchSource(prefix, options);
+        if (source !== null) {
+          await runBatch(
+            source,
+            {
+              evaluate: (entry) => cidrToWildcard(entry, options),
+              plain: (result) => result.wildcard,
+            },
+            options,
+          );
+          return;
         }
+        if (prefix === undefined) {
+          missingArgument("prefix");
+        }
+
+        try {
+          const result = cidrToWildcard(prefix, options);
+
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(result);
+            return;
+          }
+
+          // Plain output mode
+          if (options.plain) {
+            console.log(result.wildcard);
+            return;
+          }
 
-        const cidr = subnetMaskToCIDR(mask);
+          console.log(`CIDR Prefix:  /${result.prefix}`);
+          console.log(`Wildcard:     ${result.wildcard}`);
+          console.log(`Subnet Mask:  ${result.mask}`);
+          if (options.ipv6) {
+            console.log(`Expanded:     ${expandIPv6(result.wildcard)}`);
+          } else {
+            console.log(`Binary:       ${ipToBinary(result.wildcard)}`);
+          }
+        } catch (error) {
+          reportError(error, "Error converting CIDR to wildcard mask");
+        }
+      },
+    );
 
-        // Plain output mode
-        if (options.plain) {
-          console.log(cidr);
+  // Wildcard mask to CIDR conversion
+  program
+    .command("wildcard-to-cidr [wildcard]")
+    .alias("w2c")
+    .description(
+      "Convert wildcard (inverse) mask to CIDR prefix (e.g., 0.0.0.255 → /24); non-contiguous masks are reported",
+    )
+    .option("-i, --input <file>", INPUT_OPTION_DESCRIPTION)
+    .option("-p, --plain", "Output only the CIDR prefix (without /)")
+    .action(
+      async (
+        wildcard: string | undefined,
+        options: { input?: string; plain?: boolean },
+      ) => {
+        const source = batchSource(wildcard, options);
+        if (source !== null) {
+          await runBatch(
+            source,
+            {
+              evaluate: wildcardToCidr,
+              plain: (result) => `${result.prefix}`,
+            },
+            options,
+          );
           return;
         }
+        if (wildcard === undefined) {
+          missingArgument("wildcard");
+        }
 
-        console.log(`Subnet Mask:  ${mask}`);
-        console.log(`CIDR Prefix:  /${cidr}`);
-        console.log(`Binary:       ${ipToBinary(mask)}`);
-      } catch (error) {
-        console.error(
-          `❌ Error converting mask to CIDR: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-        );
-        process.exit(1);
-      }
-    });
+        try {
+          const result = wildcardToCidr(wildcard);
+
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(result);
+            return;
+          }
+
+          // Plain output mode
+          if (options.plain) {
+            console.log(result.prefix);
+            return;
+          }
+
+          console.log(`Wildcard:     ${result.wildcard}`);
+          console.log(`CIDR Prefix:  /${result.prefix}`);
+          console.log(`Subnet Mask:  ${result.mask}`);
+          if (getIPVersion(wildcard) === 6) {
+            console.log(`Expanded:     ${expandIPv6(result.wildcard)}`);
+          } else {
+            console.log(`Binary:       ${ipToBinary(result.wildcard)}`);
+          }
+        } catch (error) {
+          reportError(error, "Error converting wildcard mask to CIDR");
+        }
+      },
+    );
 
   // All-in-one conversion command
   program
-    .command("convert <address>")
+    .command("convert [address]")
     .alias("cvt")
-    .description("Show all representations of an IP address")
+    .description(
+      "Show all representations of an IP address (accepts hex, octal, shorthand, integer and IPv4-mapped input)",
+    )
+    .option("-i, --input <file>", INPUT_OPTION_DESCRIPTION)
     .option(
       "-p, --plain",
       "Output tab-separated values: decimal binary integer hex",
     )
-    .action((address: string, options: { plain?: boolean }) => {
-      try {
-        if (!isValidIPAddress(address)) {
-          console.error(`❌ Invalid IP address: ${address}`);
-          process.exit(1);
+    .action(
+      async (
+        address: string | undefined,
+        options: { input?: string; plain?: boolean },
+      ) => {
+        const source = batchSource(address, options);
+        if (source !== null) {
+          await runBatch(
+            source,
+            {
+              evaluate: (entry) => convert(entry, parseOptions()),
+              plain: (result) =>
+                `${result.address}\t${result.binary}\t${result.integer}\t${result.hex}`,
+            },
+            options,
+          );
+          return;
+        }
+        if (address === undefined) {
+          missingArgument("address");
+        }
+
+        try {
+          const result = convert(address, parseOptions());
+
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(result);
+            return;
+          }
+
+          // Plain output mode - tab separated for easy parsing
+          if (options.plain) {
+            console.log(
+              `${result.address}\t${result.binary}\t${result.integer}\t${result.hex}`,
+            );
+            return;
+          }
+
+          console.log(`\n🔢 IP Address Representations:`);
+          console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
+          if (result.notation !== "dotted" && result.notation !== "ipv6") {
+            console.log(`Input:       ${result.input} (${result.notation})`);
+          }
+          if (result.expanded !== null) {
+            console.log(`Compressed:  ${result.address}`);
+            console.log(`Expanded:    ${result.expanded}`);
+          } else {
+            console.log(`Decimal:     ${result.address}`);
+          }
+          console.log(`Binary:      ${result.binary}`);
+          console.log(`Integer:     ${result.integer}`);
+          console.log(`Hexadecimal: ${result.hex}`);
+          if (result.octal !== null) {
+            console.log(`Octal:       ${result.octal}`);
+          }
+          console.log(`PTR:         ${result.ptr}`);
+          if (result.ipv4Mapped !== null) {
+            console.log(`IPv4-mapped: ${result.ipv4Mapped}`);
+          }
+          if (result.sixToFour !== null) {
+            console.log(`6to4:        ${result.sixToFour}`);
+          }
+          console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
+        } catch (error) {
+          reportError(error, "Error during conversion");
+        }
+      },
+    );
+
+  // IPv6 expansion
+  program
+    .command("expand [address]")
+    .description("Expand an IPv6 address to its full eight-group form")
+    .option("-i, --input <file>", INPUT_OPTION_DESCRIPTION)
+    .option("-p, --plain", "Output only the expanded address")
+    .action(
+      async (
+        address: string | undefined,
+        options: { input?: string; plain?: boolean },
+      ) => {
+        const source = batchSource(address, options);
+        if (source !== null) {
+          await runBatch(
+            source,
+            { evaluate: expand, plain: (result) => result.expanded },
+            options,
+          );
+          return;
+        }
+        if (address === undefined) {
+          missingArgument("address");
+        }
+
+        try {
+          const result = expand(address);
+
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(result);
+            return;
+          }
+
+          // Plain output mode
+          if (options.plain) {
+            console.log(result.expanded);
+            return;
+          }
+
+          console.log(`IPv6 Address: ${address}`);
+          console.log(`Expanded:     ${result.expanded}`);
+        } catch (error) {
+          reportError(error, "Error expanding IPv6 address");
+        }
+      },
+    );
+
+  // IPv6 compression
+  program
+    .command("compress [address]")
+    .description("Compress an IPv6 address to its canonical form (RFC 5952)")
+    .option("-i, --input <file>", INPUT_OPTION_DESCRIPTION)
+    .option("-p, --plain", "Output only the compressed address")
+    .action(
+      async (
+        address: string | undefined,
+        options: { input?: string; plain?: boolean },
+      ) => {
+        const source = batchSource(address, options);
+        if (source !== null) {
+          await runBatch(
+            source,
+            { evaluate: compress, plain: (result) => result.compressed },
+            options,
+          );
+          return;
+        }
+        if (address === undefined) {
+          missingArgument("address");
+        }
+
+        try {
+          const result = compress(address);
+
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(result);
+            return;
+          }
+
+          // Plain output mode
+          if (options.plain) {
+            console.log(result.compressed);
+            return;
+          }
+
+          console.log(`IPv6 Address: ${address}`);
+          console.log(`Compressed:   ${result.compressed}`);
+        } catch (error) {
+          reportError(error, "Error compressing IPv6 address");
+        }
+      },
+    );
+
+  // CIDR to address range conversion
+  program
+    .command("cidr-range [cidr]")
+    .alias("c2r")
+    .description(
+      "Convert a CIDR block to its first address, last address and size",
+    )
+    .option("-i, --input <file>", INPUT_OPTION_DESCRIPTION)
+    .option("-p, --plain", "Output tab-separated values: start end count")
+    .action(
+      async (
+        cidr: string | undefined,
+        options: { input?: string; plain?: boolean },
+      ) => {
+        const source = batchSource(cidr, options);
+        if (source !== null) {
+          await runBatch(
+            source,
+            {
+              evaluate: cidrRange,
+              plain: (result) =>
+                `${result.start}\t${result.end}\t${result.count}`,
+            },
+            options,
+          );
+          return;
         }
+        if (cidr === undefined) {
+          missingArgument("cidr");
+        }
+
+        try {
+          const result = cidrRange(cidr, parseOptions());
+
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(result);
+            return;
+          }
+
+          // Plain output mode
+          if (options.plain) {
+            console.log(`${result.start}\t${result.end}\t${result.count}`);
+            return;
+          }
 
-        const binary = ipToBinary(address);
-        const integer = ipToInteger(address);
-        const hex = `0x${integer.toString(16).toUpperCase()}`;
+          console.log(`CIDR:   ${result.cidr}`);
+          console.log(`Start:  ${result.start}`);
+          console.log(`End:    ${result.end}`);
+          console.log(`Count:  ${result.count.toLocaleString()} addresses`);
+        } catch (error) {
+          reportError(error, "Error converting CIDR to range");
+        }
+      },
+    );
 
-        // Plain output mode - tab separated for easy parsing
-        if (options.plain) {
-          console.log(`${address}\t${binary}\t${integer}\t${hex}`);
+  // Reverse-DNS name
+  program
+    .command("ptr [address]")
+    .description(
+      "Reverse-DNS (PTR) name of an address (e.g., 192.168.1.10 → 10.1.168.192.in-addr.arpa)",
+    )
+    .option("-i, --input <file>", INPUT_OPTION_DESCRIPTION)
+    .option("-p, --plain", "Output only the PTR name")
+    .action(
+      async (
+        address: string | undefined,
+        options: { input?: string; plain?: boolean },
+      ) => {
+        const source = batchSource(address, options);
+        if (source !== null) {
+          await runBatch(
+            source,
+            {
+              evaluate: (entry) => ptr(entry, parseOptions()),
+              plain: (result) => result.ptr,
+            },
+            options,
+          );
           return;
         }
+        if (address === undefined) {
+          missingArgument("address");
+        }
+
+        try {
+          const result = ptr(address, parseOptions());
+
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(result);
+            return;
+          }
+
+          // Plain output mode
+          if (options.plain) {
+            console.log(result.ptr);
+            return;
+          }
+
+          console.log(`IP Address: ${result.address}`);
+          console.log(`PTR Name:   ${result.ptr}`);
+        } catch (error) {
+          reportError(error, "Error building PTR name");
+        }
+      },
+    );
+
+  // Reverse zone file
+  program
+    .command("ptr-zone <cidr>")
+    .description(
+      "Generate a BIND reverse zone file for a network (RFC 2317 classless zones for IPv4 prefixes longer than /24)",
+    )
+    .requiredOption(
+      "-t, --template <pattern>",
+      "Host name pattern: {a}.{b}.{c}.{d} are the IPv4 octets, {ip} the dashed address (e.g., host-{d}.example.com)",
+    )
+    .option(
+      "--ns <servers>",
+      "Comma-separated name servers (default: ns1 in the template's domain)",
+    )
+    .option(
+      "--email <address>",
+      "SOA contact (default: hostmaster@ the template's domain)",
+    )
+    .option("--ttl <seconds>", "Default TTL", "3600")
+    .option("--serial <number>", "SOA serial (default: YYYYMMDD01 for today)")
+    .option("-a, --all", "Include the network and broadcast addresses")
+    .option(
+      "-d, --delegation",
+      "Print the NS and CNAME records the enclosing /24 zone needs for a classless zone",
+    )
+    .option(
+      "-p, --plain",
+      "Output only the records, without $ORIGIN, SOA and NS",
+    )
+    .addHelpText(
+      "after",
+      `
+Examples:
+  $ ipnav ptr-zone 192.168.1.0/24 --template host-{d}.example.com
+  $ ipnav ptr-zone 192.168.1.64/26 -t web-{d}.example.com > 64-26.zone
+  $ ipnav ptr-zone 192.168.1.64/26 -t web-{d}.example.com --delegation`,
+    )
+    .action(
+      async (
+        cidr: string,
+        options: {
+          template: string;
+          ns?: string;
+          email?: string;
+          ttl: string;
+          serial?: string;
+          all?: boolean;
+          delegation?: boolean;
+          plain?: boolean;
+        },
+      ) => {
+        try {
+          const zone = ptrZone(cidr, {
+            ...parseOptions(),
+            template: options.template,
+            nameServers: options.ns
+              ?.split(",")
+              .map((server) => server.trim())
+              .filter((server) => server !== ""),
+            email: options.email,
+            ttl: parseIntegerOption(options.ttl, "TTL"),
+            serial:
+              options.serial === undefined
+                ? undefined
+                : parseIntegerOption(options.serial, "Serial"),
+            all: options.all,
+          });
+
+          if (options.delegation && !zone.classless) {
+            throw new UsageError(
+              `${zone.cidr} is not a classless zone; --delegation applies to IPv4 prefixes longer than /24`,
+            );
+          }
+          const records = options.delegation ? zone.delegation : zone.records;
+
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(records);
+            return;
+          }
 
-        console.log(`\n🔢 IP Address Representations:`);
-        console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
-        console.log(`Decimal:     ${address}`);
-        console.log(`Binary:      ${binary}`);
-        console.log(`Integer:     ${integer}`);
-        console.log(`Hexadecimal: ${hex}`);
-        console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
-      } catch (error) {
-        console.error(
-          `❌ Error during conversion: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-        );
-        process.exit(1);
-      }
-    });
+          // Plain output mode
+          if (options.plain) {
+            for (const line of recordLines(records)) {
+              await writeLine(line);
+            }
+            return;
+          }
+
+          const lines = options.delegation
+            ? [
+                `; Delegation of ${zone.cidr} (RFC 2317), for the zone ${zone.parentOrigin}`,
+                `$ORIGIN ${zone.parentOrigin}`,
+                ...recordLines(records),
+              ]
+            : zoneFile(zone);
+          for (const line of lines) {
+            await writeLine(line);
+          }
+        } catch (error) {
+          reportError(error, "Error generating reverse zone");
+        }
+      },
+    );
 }
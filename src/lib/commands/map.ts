@@ -0,0 +1,252 @@
+import { Command, Option } from "commander";
+
+import {
+  MapCell,
+  SubnetMapReport,
+  renderMapHtml,
+  renderMapSvg,
+  subnetMap,
+} from "@/lib/api/map.js";
+
+import { addressCount } from "@/lib/utils/cidr.js";
+
+import { UsageError } from "@/lib/utils/errors.js";
+
+import { parseOptions, readListArgument } from "@/lib/utils/input.js";
+
+import {
+  fail,
+  isStructuredOutput,
+  printStructured,
+  reportError,
+  writeLine,
+} from "@/lib/utils/output.js";
+
+/** Keys of the used entries in the grid and the legend, in entry order */
+const ENTRY_KEYS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+
+/** ANSI background colours of the used entries (repeating) */
+const ENTRY_COLORS = [44, 43, 42, 41, 45, 46];
+
+const FREE_CELL = "··";
+
+const PARTIAL_MARK = "▒";
+
+interface MapCommandOptions {
+  used?: string;
+  granularity?: string;
+  columns: string;
+  svg?: boolean;
+  html?: boolean;
+  color: boolean;
+  plain?: boolean;
+}
+
+/**
+ * Key of a used entry; entries past the last key share "*"
+ */
+function entryKey(index: number): string {
+  return ENTRY_KEYS[index - 1] ?? "*";
+}
+
+/**
+ * Wraps text in the colour of a used entry, as a background for used
+ * cells and as a foreground for partial ones
+ */
+function paint(
+  text: string,
+  index: number,
+  background: boolean,
+  color: boolean,
+): string {
+  if (!color) {
+    return text;
+  }
+  const code = ENTRY_COLORS[(index - 1) % ENTRY_COLORS.length];
+  return background
+    ? `\x1b[${code};30m${text}\x1b[0m`
+    : `\x1b[${code - 10}m${text}\x1b[0m`;
+}
+
+/**
+ * Two-character glyph of a cell: the entry key twice when used, the key and
+ * a shade when partially used, dots when free
+ */
+function cellGlyph(cell: MapCell, color: boolean): string {
+  if (cell.state === "free") {
+    return color ? `\x1b[2m${FREE_CELL}\x1b[0m` : FREE_CELL;
+  }
+  const index = cell.entries[0];
+  const key = entryKey(index);
+  return cell.state === "used"
+    ? paint(`${key}${key}`, index, true, color)
+    : paint(`${key}${PARTIAL_MARK}`, index, false, color);
+}
+
+/**
+ * Prints the grid, the legend and the free blocks of a map
+ */
+async function printMap(
+  report: SubnetMapReport,
+  columns: number,
+  color: boolean,
+): Promise<void> {
+  const labels = report.cells.map((cell) => cell.cidr.split("/")[0]);
+  const width = Math.max(...labels.map((label) => label.length));
+
+  await writeLine(`\n🗺️  Subnet Map: ${report.network}`);
+  await writeLine(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
+  await writeLine(
+    `Cell Size:   /${report.granularity} (${report.cells.length.toLocaleString()} cells)`,
+  );
+  await writeLine(
+    `Used:        ${report.usedAddresses.toLocaleString()} of ${report.totalAddresses.toLocaleString()} addresses (${report.utilization}%)`,
+  );
+  await writeLine(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
+
+  for (let row = 0; row < report.cells.length; row += columns) {
+    const glyphs = report.cells
+      .slice(row, row + columns)
+      .map((cell) => cellGlyph(cell, color));
+    await writeLine(`  ${labels[row].padEnd(width)}  ${glyphs.join("")}`);
+  }
+
+  await writeLine(`\nLegend:`);
+  for (const entry of report.entries) {
+    const key = entryKey(entry.index);
+    await writeLine(
+      `  ${paint(`${key}${key}`, entry.index, true, color)}  ${entry.entry.padEnd(width + 4)} ${addressCount(entry.addresses)}`,
+    );
+  }
+  if (report.cells.some((cell) => cell.state === "partial")) {
+    await writeLine(
+      `  ${PARTIAL_MARK}${PARTIAL_MARK}  partially used, keyed by its first entry (a longer --granularity shows more detail)`,
+    );
+  }
+  await writeLine(
+    `  ${color ? `\x1b[2m${FREE_CELL}\x1b[0m` : FREE_CELL}  free`,
+  );
+
+  const free = report.regions.filter((region) => region.state === "free");
+  await writeLine(`\nFree Blocks:`);
+  if (free.length === 0) {
+    await writeLine(`  (none)`);
+  }
+  for (const [idx, region] of free.entries()) {
+    await writeLine(
+      `${(idx + 1).toString().padStart(3, " ")}. ${region.cidr.padEnd(width + 4)} ${addressCount(region.totalHosts)}`,
+    );
+  }
+  await writeLine("");
+}
+
+/**
+ * Registers the subnet map renderer to the CLI program
+ */
+export function registerMapCommand(program: Command): void {
+  program
+    .command("map <network>")
+    .description(
+      "Draw the used and free space of a network as a block diagram (terminal, SVG or HTML)",
+    )
+    .option(
+      "-u, --used <list>",
+      "Used blocks: comma-separated CIDRs, ranges or addresses, @file or - for stdin",
+    )
+    .option(
+      "-g, --granularity <prefix>",
+      "Prefix length of one cell (default: fits every allocation, 16 to 256 cells)",
+    )
+    .option("--columns <number>", "Cells per row", "16")
+    .addOption(
+      new Option("--svg", "Output the map as an SVG image").conflicts("html"),
+    )
+    .addOption(
+      new Option(
+        "--html",
+        "Output the map as a standalone HTML page with a table of blocks",
+      ).conflicts("svg"),
+    )
+    .option("--no-color", "Draw the terminal map without ANSI colours")
+    .option(
+      "-p, --plain",
+      "Output tab-separated values: cidr state entry (used and free blocks)",
+    )
+    .addHelpText(
+      "after",
+      `
+Used cells show the key of their entry (A, B, ...), partially used cells
+the key and a shade, free cells dots. Colours are off when NO_COLOR is set
+or the output is not a terminal. --svg and --html print to stdout.
+
+Examples:
+  $ ipnav map 10.0.0.0/22 --used 10.0.0.0/24,10.0.2.0/25
+  $ ipnav map 10.0.0.0/16 --used @allocations.txt --granularity 24
+  $ ipnav map 10.0.0.0/22 --used 10.0.0.0/24 --svg > plan.svg`,
+    )
+    .action(async (network: string, options: MapCommandOptions) => {
+      try {
+        const columns = Number(options.columns);
+        if (!Number.isInteger(columns) || columns < 1) {
+          fail(
+            new UsageError(
+              `Invalid column count: ${options.columns}`,
+              "Expected a positive integer",
+            ),
+          );
+        }
+        const granularity = options.granularity?.replace(/^\//, "");
+        if (granularity !== undefined && !/^\d+$/.test(granularity)) {
+          fail(
+            new UsageError(
+              `Invalid granularity: ${options.granularity}`,
+              "Expected a prefix length, e.g. 24 or /24",
+            ),
+          );
+        }
+
+        const report = subnetMap(network, {
+          used:
+            options.used === undefined
+              ? []
+              : await readListArgument(options.used),
+          granularity:
+            granularity === undefined ? undefined : Number(granularity),
+          ...parseOptions(),
+        });
+
+        if (options.svg) {
+          await writeLine(renderMapSvg(report, { columns }));
+          return;
+        }
+        if (options.html) {
+          await writeLine(renderMapHtml(report, { columns }));
+          return;
+        }
+
+        // Structured output mode (--format) - used and free blocks
+        if (isStructuredOutput()) {
+          printStructured(report.regions);
+          return;
+        }
+
+        // Plain output mode - free blocks have "-" as their entry
+        if (options.plain) {
+          for (const region of report.regions) {
+            await writeLine(
+              `${region.cidr}\t${region.state}\t${region.entry ?? "-"}`,
+            );
+          }
+          return;
+        }
+
+        await printMap(
+          report,
+          columns,
+          options.color && !process.env.NO_COLOR && !!process.stdout.isTTY,
+        );
+      } catch (error) {
+        reportError(error, "Error drawing subnet map");
+      }
+    });
+}
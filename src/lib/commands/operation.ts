@@ -1,15 +1,67 @@
-import { Command } from "commander";
+import { Command, Option } from "commander";
 
-import { isValidIPAddress } from "ip-navigator/validation";
+import {
+  ADDRESS_KINDS,
+  AddressKind,
+  MAX_STEPS,
+  classify,
+  compare,
+  countRange,
+  enumerateRange,
+  extract,
+  GeoLookup,
+  lookup,
+  matchesKind,
+  nextAddresses,
+  previousAddresses,
+  rangeToCIDRs,
+  SORT_KEYS,
+  SortKey,
+  sortAddresses,
+} from "@/lib/api/operation.js";
+
+import {
+  exitWithAnswer,
+  fail,
+  isStructuredOutput,
+  printStructured,
+  printStructuredStream,
+  reportError,
+  writeLine,
+} from "@/lib/utils/output.js";
+
+import { UsageError } from "@/lib/utils/errors.js";
+
+import { batchSource, missingArgument, runBatch } from "@/lib/utils/batch.js";
 
 import {
-  isPublicIP,
-  isPrivateIP,
-  getNextIPAddress,
-  getPreviousIPAddress,
-  getIPRange,
-  compareIPAddresses,
-} from "ip-navigator/operation";
+  collectEntries,
+  parseCountOption,
+  parseOptions,
+  readLines,
+} from "@/lib/utils/input.js";
+
+/**
+ * Renders a registry flag for text output
+ */
+function flagText(flag: boolean | null): string {
+  return flag === null ? "n/a" : flag ? "yes" : "no";
+}
+
+/**
+ * Tab-separated lookup fields for --plain, "-" standing for missing data
+ */
+function lookupPlain(result: GeoLookup): string {
+  return [
+    result.address,
+    result.country,
+    result.city,
+    result.asn,
+    result.organization,
+  ]
+    .map((value) => value ?? "-")
+    .join("\t");
+}
 
 /**
  * Registers all IP address operation commands to the CLI program
@@ -17,83 +69,336 @@ import {
 export function registerOperationCommands(program: Command): void {
   // Classify IP (public/private)
   program
-    .command("classify <address>")
+    .command("classify [address]")
     .alias("class")
-    .description("Classify IP address as public or private")
-    .option("-p, --plain", "Output plain format (public/private only)")
-    .action((address: string, options: { plain?: boolean }) => {
-      try {
-        if (!isValidIPAddress(address)) {
-          console.error(`❌ Invalid IP address: ${address}`);
-          process.exit(1);
+    .description(
+      "Classify IP address (IPv4 or IPv6) against the IANA special-purpose registry",
+    )
+    .addOption(
+      new Option(
+        "--is <kind>",
+        "Answer whether the address is of a type or registry category",
+      ).choices(ADDRESS_KINDS),
+    )
+    .option(
+      "-i, --input <file>",
+      "Read entries from a file, one per line ('-' for stdin)",
+    )
+    .option("-p, --plain", "Output plain format (public/private/special only)")
+    .option(
+      "--strict",
+      "With --is, print nothing and answer only through the exit status",
+    )
+    .action(
+      async (
+        address: string | undefined,
+        options: {
+          is?: AddressKind;
+          input?: string;
+          plain?: boolean;
+          strict?: boolean;
+        },
+      ) => {
+        const kind = options.is;
+        if (options.strict && kind === undefined) {
+          fail(new UsageError("--strict requires --is <kind>"));
         }
 
-        const isPublic = isPublicIP(address);
+        const source = batchSource(address, options);
+        if (source !== null && kind !== undefined) {
+          await runBatch(
+            source,
+            {
+              evaluate: (entry) => {
+                const result = classify(entry, parseOptions());
+                return { ...result, matches: matchesKind(result, kind) };
+              },
+              plain: (result) => `${result.matches}`,
+              failed: (result) => !result.matches,
+            },
+            options,
+          );
+          return;
+        }
+        if (source !== null) {
+          await runBatch(
+            source,
+            {
+              evaluate: (entry) => classify(entry, parseOptions()),
+              plain: (result) => result.type,
+            },
+            options,
+          );
+          return;
+        }
+        if (address === undefined) {
+          missingArgument("address");
+        }
 
-        // Plain output mode
-        if (options.plain) {
-          console.log(isPublic ? "public" : "private");
+        try {
+          const result = classify(address, parseOptions());
+
+          // Predicate mode (--is) - the answer is also the exit status
+          if (kind !== undefined) {
+            const matches = matchesKind(result, kind);
+
+            if (options.strict) {
+              exitWithAnswer(matches);
+            }
+
+            if (isStructuredOutput()) {
+              printStructured({ ...result, matches });
+              exitWithAnswer(matches);
+            }
+
+            if (options.plain) {
+              console.log(matches ? "true" : "false");
+              exitWithAnswer(matches);
+            }
+
+            console.log(
+              matches
+                ? `✅ ${result.address} is ${kind}`
+                : `❌ ${result.address} is not ${kind} (${result.category ?? result.type})`,
+            );
+            exitWithAnswer(matches);
+          }
+
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(result);
+            return;
+          }
+
+          // Plain output mode
+          if (options.plain) {
+            console.log(result.type);
+            return;
+          }
+
+          const typeLabels = {
+            public: "🌐 Public IP",
+            private: "🏠 Private IP",
+            special: "🚧 Special-Purpose IP",
+          };
+
+          console.log(`\n🔍 IP Classification:`);
+          console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
+          console.log(`IP Address:  ${result.address}`);
+          console.log(`Type:        ${typeLabels[result.type]}`);
+
+          if (result.block !== null) {
+            console.log(`Purpose:     ${result.name}`);
+            console.log(`Block:       ${result.block}`);
+            console.log(`Range:       ${result.range}`);
+            console.log(`Standard:    ${result.rfc.join(", ")}`);
+            console.log(`Forwardable: ${flagText(result.forwardable)}`);
+            console.log(`Global:      ${flagText(result.global)}`);
+            console.log(`Reserved:    ${flagText(result.reserved)}`);
+          }
+          console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
+        } catch (error) {
+          reportError(error, "Error classifying IP");
+        }
+      },
+    );
+
+  // Offline GeoIP / ASN lookup
+  program
+    .command("lookup [address]")
+    .alias("geo")
+    .description(
+      "Look up country, city, ASN and organization in local MaxMind DB files",
+    )
+    .option(
+      "--db <file>",
+      "City or Country database, e.g. GeoLite2-City.mmdb (default: $IPNAV_GEOIP_DB)",
+      process.env.IPNAV_GEOIP_DB,
+    )
+    .option(
+      "--asn-db <file>",
+      "ASN database, e.g. GeoLite2-ASN.mmdb (default: $IPNAV_ASN_DB)",
+      process.env.IPNAV_ASN_DB,
+    )
+    .option(
+      "-i, --input <file>",
+      "Read entries from a file, one per line ('-' for stdin)",
+    )
+    .option(
+      "-p, --plain",
+      "Output tab-separated values: address country city asn organization",
+    )
+    .action(
+      async (
+        address: string | undefined,
+        options: {
+          db?: string;
+          asnDb?: string;
+          input?: string;
+          plain?: boolean;
+        },
+      ) => {
+        if (options.db === undefined && options.asnDb === undefined) {
+          fail(
+            new UsageError(
+              "No database given",
+              "Pass --db <City or Country .mmdb>, --asn-db <ASN .mmdb>, or both",
+            ),
+          );
+        }
+        const lookupOptions = { ...options, ...parseOptions() };
+
+        const source = batchSource(address, options);
+        if (source !== null) {
+          await runBatch(
+            source,
+            {
+              evaluate: (entry) => lookup(entry, lookupOptions),
+              plain: lookupPlain,
+            },
+            options,
+          );
           return;
         }
+        if (address === undefined) {
+          missingArgument("address");
+        }
 
-        const isPrivate = isPrivateIP(address);
+        try {
+          const result = lookup(address, lookupOptions);
 
-        console.log(`\n🔍 IP Classification:`);
-        console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
-        console.log(`IP Address: ${address}`);
-        console.log(
-          `Type:       ${isPublic ? "🌐 Public IP" : "🏠 Private IP"}`,
-        );
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(result);
+            return;
+          }
+
+          // Plain output mode
+          if (options.plain) {
+            console.log(lookupPlain(result));
+            return;
+          }
 
-        if (isPrivate) {
-          console.log(`Standard:   RFC 1918 (Private Network)`);
-
-          // Determine which private range
-          const octets = address.split(".").map(Number);
-          if (octets[0] === 10) {
-            console.log(`Range:      10.0.0.0 - 10.255.255.255`);
-          } else if (octets[0] === 172 && octets[1] >= 16 && octets[1] <= 31) {
-            console.log(`Range:      172.16.0.0 - 172.31.255.255`);
-          } else if (octets[0] === 192 && octets[1] === 168) {
-            console.log(`Range:      192.168.0.0 - 192.168.255.255`);
+          const unknown = "unknown";
+          console.log(`\n🌍 IP Lookup:`);
+          console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
+          console.log(`IP Address:   ${result.address}`);
+          if (options.db !== undefined) {
+            console.log(
+              `Country:      ${
+                result.country === null
+                  ? unknown
+                  : `${result.countryName ?? result.country} (${result.country})`
+              }`,
+            );
+            console.log(`City:         ${result.city ?? unknown}`);
+          }
+          if (options.asnDb !== undefined) {
+            console.log(
+              `ASN:          ${result.asn === null ? unknown : `AS${result.asn}`}`,
+            );
+            console.log(`Organization: ${result.organization ?? unknown}`);
           }
+          console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
+        } catch (error) {
+          reportError(error, "Error looking up IP");
         }
-        console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
-      } catch (error) {
-        console.error(
-          `❌ Error classifying IP: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-        );
-        process.exit(1);
-      }
-    });
+      },
+    );
+
+  // Extract addresses from text
+  program
+    .command("extract [files...]")
+    .description(
+      "Find the unique IPv4/IPv6 addresses and CIDRs in logs or any text, with counts (reads stdin when no files are given)",
+    )
+    .option(
+      "--filter <filter>",
+      "Keep only public, private (or another classify kind) or in:<cidr> matches",
+    )
+    .option(
+      "-s, --sort",
+      "Sort by address (IPv4 first) instead of first appearance",
+    )
+    .option("-p, --plain", "Output plain list (one address or CIDR per line)")
+    .action(
+      async (
+        files: string[],
+        options: { filter?: string; sort?: boolean; plain?: boolean },
+      ) => {
+        try {
+          const sources = files.length === 0 ? ["-"] : files;
+          async function* lines() {
+            for (const source of sources) {
+              yield* readLines(source);
+            }
+          }
+
+          const rows = await extract(lines(), {
+            ...options,
+            ...parseOptions(),
+          });
+
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(rows);
+            return;
+          }
+
+          // Plain output mode
+          if (options.plain) {
+            for (const row of rows) {
+              await writeLine(row.value);
+            }
+            return;
+          }
+
+          const total = rows.reduce((sum, row) => sum + row.count, 0);
+          console.log(`\n🔎 Extracted Addresses:`);
+          console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
+          console.log(`Unique:  ${rows.length.toLocaleString()}`);
+          console.log(`Matches: ${total.toLocaleString()}`);
+          console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
+          if (rows.length === 0) {
+            console.log(`  (no addresses found)`);
+          }
+          const width = Math.max(...rows.map((row) => row.value.length), 0);
+          for (const [idx, row] of rows.entries()) {
+            await writeLine(
+              `${(idx + 1).toString().padStart(3, " ")}. ${row.value.padEnd(width)}  ×${row.count.toLocaleString()}`,
+            );
+          }
+          console.log();
+        } catch (error) {
+          reportError(error, "Error extracting addresses");
+        }
+      },
+    );
 
   // Get next IP address
   program
     .command("next <address>")
     .description("Get the next IP address in sequence")
-    .option("-n, --count <number>", "Get N next IP addresses", "1")
+    .option(
+      "-n, --count <number>",
+      `Get N next IP addresses (up to ${MAX_STEPS})`,
+      "1",
+    )
     .option("-p, --plain", "Output plain IP list (one per line)")
     .action((address: string, options: { count: string; plain?: boolean }) => {
       try {
-        if (!isValidIPAddress(address)) {
-          console.error(`❌ Invalid IP address: ${address}`);
-          process.exit(1);
-        }
-
-        const count = parseInt(options.count, 10);
-        if (isNaN(count) || count < 1 || count > 100) {
-          console.error(`❌ Count must be between 1 and 100`);
-          process.exit(1);
-        }
-
-        let current = address;
-        const results: string[] = [];
+        const results = nextAddresses(
+          address,
+          Number(options.count),
+          parseOptions(),
+        );
 
-        for (let i = 0; i < count; i++) {
-          current = getNextIPAddress(current);
-          results.push(current);
+        // Structured output mode (--format)
+        if (isStructuredOutput()) {
+          printStructured(
+            results.map((ip, i) => ({ step: i + 1, address: ip })),
+          );
+          return;
         }
 
         // Plain output mode
@@ -108,12 +413,7 @@ export function registerOperationCommands(program: Command): void {
           console.log(`Next ${i + 1}:  ${ip}`);
         });
       } catch (error) {
-        console.error(
-          `❌ Error getting next IP: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-        );
-        process.exit(1);
+        reportError(error, "Error getting next IP");
       }
     });
 
@@ -122,27 +422,27 @@ export function registerOperationCommands(program: Command): void {
     .command("previous <address>")
     .alias("prev")
     .description("Get the previous IP address in sequence")
-    .option("-n, --count <number>", "Get N previous IP addresses", "1")
+    .option(
+      "-n, --count <number>",
+      `Get N previous IP addresses (up to ${MAX_STEPS})`,
+      "1",
+    )
     .option("-p, --plain", "Output plain IP list (one per line)")
     .action((address: string, options: { count: string; plain?: boolean }) => {
       try {
-        if (!isValidIPAddress(address)) {
-          console.error(`❌ Invalid IP address: ${address}`);
-          process.exit(1);
-        }
-
-        const count = parseInt(options.count, 10);
-        if (isNaN(count) || count < 1 || count > 100) {
-          console.error(`❌ Count must be between 1 and 100`);
-          process.exit(1);
-        }
-
-        let current = address;
-        const results: string[] = [];
+        const results = previousAddresses(
+          address,
+          Number(options.count),
+          parseOptions(),
+        );
+        const count = results.length;
 
-        for (let i = count; i > 0; i--) {
-          current = getPreviousIPAddress(current);
-          results.push(current);
+        // Structured output mode (--format)
+        if (isStructuredOutput()) {
+          printStructured(
+            results.map((ip, i) => ({ step: i + 1, address: ip })),
+          );
+          return;
         }
 
         // Plain output mode
@@ -157,12 +457,7 @@ export function registerOperationCommands(program: Command): void {
         });
         console.log(`Current: ${address}`);
       } catch (error) {
-        console.error(
-          `❌ Error getting previous IP: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-        );
-        process.exit(1);
+        reportError(error, "Error getting previous IP");
       }
     });
 
@@ -171,86 +466,149 @@ export function registerOperationCommands(program: Command): void {
     .command("range <start> <end>")
     .description("Generate all IP addresses between start and end (inclusive)")
     .option("-c, --count", "Only show the count of IPs in range")
+    .option(
+      "-C, --cidrs",
+      "Express the range as the minimal list of CIDR blocks",
+    )
     .option(
       "-l, --limit <number>",
-      "Limit output to specified number of IPs",
-      "100",
+      "Limit output to specified number of IPs (formatted output shows 100 by default)",
     )
+    .option("-o, --offset <number>", "Skip the first N IPs of the range", "0")
     .option("-p, --plain", "Output plain IP list (one per line, no formatting)")
     .action(
-      (
+      async (
         start: string,
         end: string,
-        options: { count?: boolean; limit: string; plain?: boolean },
+        options: {
+          count?: boolean;
+          cidrs?: boolean;
+          limit?: string;
+          offset: string;
+          plain?: boolean;
+        },
       ) => {
         try {
-          if (!isValidIPAddress(start)) {
-            console.error(`❌ Invalid start IP address: ${start}`);
-            process.exit(1);
-          }
-          if (!isValidIPAddress(end)) {
-            console.error(`❌ Invalid end IP address: ${end}`);
-            process.exit(1);
-          }
+          // Range-to-CIDR conversion
+          if (options.cidrs) {
+            const rows = rangeToCIDRs(start, end, parseOptions());
 
-          const comparison = compareIPAddresses(start, end);
-          if (comparison > 0) {
-            console.error(
-              `❌ Start IP (${start}) must be less than or equal to end IP (${end})`,
-            );
-            process.exit(1);
-          }
+            if (isStructuredOutput()) {
+              printStructured(rows);
+              return;
+            }
 
-          const range = getIPRange(start, end);
-          const limit = parseInt(options.limit, 10);
+            if (options.plain) {
+              rows.forEach((row) => console.log(row.cidr));
+              return;
+            }
 
-          // Plain output mode for piping to tools like nmap
-          if (options.plain) {
-            range.forEach((ip) => {
-              console.log(ip);
+            console.log(
+              `\n🧱 CIDR Blocks for ${start} - ${end} (${rows.length} blocks):\n`,
+            );
+            rows.forEach((row, idx) => {
+              console.log(
+                `${(idx + 1).toString().padStart(3, " ")}. ${row.cidr.padEnd(20)} ${row.start} - ${row.end}`,
+              );
             });
+            console.log();
             return;
           }
 
+          // The count is computed arithmetically, never by enumerating
+          const total = countRange(start, end, parseOptions()).count;
+
           if (options.count) {
+            if (isStructuredOutput()) {
+              printStructured({ start, end, count: total });
+              return;
+            }
+
+            if (options.plain) {
+              console.log(total.toString());
+              return;
+            }
+
             console.log(`\n📊 IP Range Information:`);
             console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
             console.log(`Start:  ${start}`);
             console.log(`End:    ${end}`);
-            console.log(`Count:  ${range.length.toLocaleString()} addresses`);
+            console.log(`Count:  ${total.toLocaleString()} addresses`);
             console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
+            return;
+          }
+
+          const offset = parseCountOption(options.offset, "Offset", 0n);
+          const limit =
+            options.limit === undefined
+              ? undefined
+              : parseCountOption(options.limit, "Limit", 1n);
+          const addresses = enumerateRange(start, end, {
+            offset,
+            limit,
+            ...parseOptions(),
+          });
+
+          // Structured output mode (--format) - streamed like plain output
+          if (isStructuredOutput()) {
+            await printStructuredStream(
+              (function* () {
+                let index = offset;
+                for (const address of addresses) {
+                  index++;
+                  yield { index, address };
+                }
+              })(),
+            );
+            return;
+          }
+
+          // Plain output mode for piping to tools like nmap - streamed, so
+          // even a full /0 never sits in memory
+          if (options.plain) {
+            for (const address of addresses) {
+              await writeLine(address);
+            }
+            return;
+          }
+
+          const remaining = total - offset;
+          const shownLimit = limit ?? 100n;
+          const shown = remaining < shownLimit ? remaining : shownLimit;
+
+          if (offset > 0n) {
+            console.log(
+              `\n⚠️  Range contains ${total.toLocaleString()} IPs. Showing ${(offset + 1n).toLocaleString()} to ${(offset + shown).toLocaleString()}:\n`,
+            );
+          } else if (remaining > shown) {
+            console.log(
+              `\n⚠️  Range contains ${total.toLocaleString()} IPs. Showing first ${shown}:\n`,
+            );
           } else {
-            if (range.length > limit) {
-              console.log(
-                `\n⚠️  Range contains ${range.length.toLocaleString()} IPs. Showing first ${limit}:\n`,
-              );
-              range.slice(0, limit).forEach((ip, idx) => {
-                console.log(`${(idx + 1).toString().padStart(3, " ")}. ${ip}`);
-              });
-              console.log(
-                `\n... and ${(
-                  range.length - limit
-                ).toLocaleString()} more addresses`,
-              );
-              console.log(
-                `\nTip: Use --count to see total or --limit N to show more`,
-              );
-            } else {
-              console.log(
-                `\n📋 IP Range (${range.length.toLocaleString()} addresses):\n`,
-              );
-              range.forEach((ip, idx) => {
-                console.log(`${(idx + 1).toString().padStart(3, " ")}. ${ip}`);
-              });
+            console.log(
+              `\n📋 IP Range (${total.toLocaleString()} addresses):\n`,
+            );
+          }
+
+          let index = offset;
+          for (const address of addresses) {
+            if (index - offset >= shown) {
+              break;
             }
+            index++;
+            await writeLine(`${index.toString().padStart(3, " ")}. ${address}`);
+          }
+
+          if (remaining > shown) {
+            console.log(
+              `\n... and ${(remaining - shown).toLocaleString()} more addresses`,
+            );
+            console.log(
+              `\nTip: Use --count to see total, --limit N to show more or --offset N to page`,
+            );
           }
         } catch (error) {
-          console.error(
-            `❌ Error generating IP range: ${
-              error instanceof Error ? error.message : String(error)
-            }`,
-          );
-          process.exit(1);
+          reportError(error, "Error generating IP range");
         }
       },
     );
@@ -266,16 +624,14 @@ export function registerOperationCommands(program: Command): void {
     )
     .action((ip1: string, ip2: string, options: { plain?: boolean }) => {
       try {
-        if (!isValidIPAddress(ip1)) {
-          console.error(`❌ Invalid IP address: ${ip1}`);
-          process.exit(1);
-        }
-        if (!isValidIPAddress(ip2)) {
-          console.error(`❌ Invalid IP address: ${ip2}`);
-          process.exit(1);
-        }
+        const comparison = compare(ip1, ip2, parseOptions());
+        const result = comparison.result;
 
-        const result = compareIPAddresses(ip1, ip2);
+        // Structured output mode (--format)
+        if (isStructuredOutput()) {
+          printStructured(comparison);
+          return;
+        }
 
         // Plain output mode
         if (options.plain) {
@@ -297,12 +653,80 @@ export function registerOperationCommands(program: Command): void {
         }
         console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
       } catch (error) {
-        console.error(
-          `❌ Error comparing IPs: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-        );
-        process.exit(1);
+        reportError(error, "Error comparing IPs");
       }
     });
+
+  // Sort address and CIDR lists
+  program
+    .command("sort [entries...]")
+    .description(
+      "Sort addresses and CIDRs numerically, IPv4 first (reads stdin when no entries are given)",
+    )
+    .option("-u, --unique", "Drop repeated entries")
+    .option("-r, --reverse", "Largest first")
+    .addOption(
+      new Option("--by <key>", "Order by network address or prefix length")
+        .choices(SORT_KEYS)
+        .default("network"),
+    )
+    .option(
+      "-c, --collapse",
+      "Drop entries covered by a broader prefix in the list",
+    )
+    .option("-p, --plain", "Output plain list (one entry per line)")
+    .action(
+      async (
+        entries: string[],
+        options: {
+          unique?: boolean;
+          reverse?: boolean;
+          by: SortKey;
+          collapse?: boolean;
+          plain?: boolean;
+        },
+      ) => {
+        try {
+          const inputs = await collectEntries(entries);
+          if (inputs.length === 0) {
+            fail(
+              new UsageError(
+                "No entries provided",
+                "Pass addresses or CIDRs as arguments or on stdin",
+              ),
+            );
+          }
+
+          const rows = sortAddresses(inputs, { ...options, ...parseOptions() });
+
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(rows);
+            return;
+          }
+
+          // Plain output mode
+          if (options.plain) {
+            for (const row of rows) {
+              await writeLine(row.value);
+            }
+            return;
+          }
+
+          await writeLine(`\n🔢 Sorted Entries:`);
+          await writeLine(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
+          await writeLine(`Entries: ${inputs.length.toLocaleString()}`);
+          await writeLine(`Output:  ${rows.length.toLocaleString()}`);
+          await writeLine(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
+          for (const [idx, row] of rows.entries()) {
+            await writeLine(
+              `${(idx + 1).toString().padStart(3, " ")}. ${row.value}`,
+            );
+          }
+          await writeLine("");
+        } catch (error) {
+          reportError(error, "Error sorting entries");
+        }
+      },
+    );
 }
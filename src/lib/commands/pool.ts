@@ -0,0 +1,318 @@
+import { Command } from "commander";
+
+import { homedir } from "os";
+import { join } from "path";
+
+import {
+  PoolAllocation,
+  PoolReport,
+  allocateAddresses,
+  createPool,
+  listPools,
+  releaseAddresses,
+  showPool,
+} from "@/lib/api/pool.js";
+
+import { addressCount } from "@/lib/utils/cidr.js";
+
+import { UsageError } from "@/lib/utils/errors.js";
+
+import { parseOptions } from "@/lib/utils/input.js";
+
+import {
+  fail,
+  isStructuredOutput,
+  printStructured,
+  reportError,
+  writeLine,
+} from "@/lib/utils/output.js";
+
+const DEFAULT_STATE_FILE =
+  process.env.IPNAV_POOL_FILE ?? join(homedir(), ".ipnav_pools.json");
+
+const STATE_FILE_HELP = `
+Pools are stored in ${DEFAULT_STATE_FILE} (set IPNAV_POOL_FILE or pass
+--file to use another one). Updates lock the file, so concurrent jobs
+sharing it never hand out the same address twice.`;
+
+/** Width of the utilization bar in pool show */
+const BAR_WIDTH = 20;
+
+interface FileOption {
+  file: string;
+}
+
+/**
+ * Utilization as a bar of BAR_WIDTH cells
+ */
+function utilizationBar(percent: number): string {
+  const filled = Math.min(BAR_WIDTH, Math.ceil((percent / 100) * BAR_WIDTH));
+  return `[${"█".repeat(filled)}${"░".repeat(BAR_WIDTH - filled)}]`;
+}
+
+/**
+ * Flattens a pool report into one structured row per allocation, each
+ * repeating the pool figures, so every format has the same columns. A pool
+ * with no allocations is a single row whose allocation fields are null.
+ */
+function poolRows(report: PoolReport): object[] {
+  const { allocations, ...summary } = report;
+  if (allocations.length === 0) {
+    return [{ ...summary, address: null, label: null, allocatedAt: null }];
+  }
+  return allocations.map((allocation) => ({ ...summary, ...allocation }));
+}
+
+/**
+ * Prints allocations as structured rows, plain addresses or a text list
+ */
+async function printAllocations(
+  heading: string,
+  allocations: PoolAllocation[],
+  plain: boolean | undefined,
+): Promise<void> {
+  // Structured output mode (--format)
+  if (isStructuredOutput()) {
+    printStructured(allocations);
+    return;
+  }
+
+  // Plain output mode
+  if (plain) {
+    for (const allocation of allocations) {
+      await writeLine(allocation.address);
+    }
+    return;
+  }
+
+  await writeLine(`✅ ${heading}`);
+  for (const allocation of allocations) {
+    await writeLine(
+      `  ${allocation.address}${allocation.label === null ? "" : `  (${allocation.label})`}`,
+    );
+  }
+}
+
+/**
+ * Registers the address pool (IPAM) commands to the CLI program
+ */
+export function registerPoolCommands(program: Command): void {
+  const pool = program
+    .command("pool")
+    .description(
+      "Manage named address pools in a local state file (a small IPAM)",
+    );
+
+  // Create a pool
+  pool
+    .command("create <name> <cidr>")
+    .description("Create an empty pool over a CIDR")
+    .option("--file <file>", "Pool state file", DEFAULT_STATE_FILE)
+    .addHelpText("after", STATE_FILE_HELP)
+    .action(async (name: string, cidr: string, options: FileOption) => {
+      try {
+        const summary = await createPool(name, cidr, {
+          ...options,
+          ...parseOptions(),
+        });
+
+        // Structured output mode (--format)
+        if (isStructuredOutput()) {
+          printStructured(summary);
+          return;
+        }
+
+        console.log(`✅ Created pool ${summary.name} (${summary.cidr})`);
+        console.log(`   ${summary.capacity.toLocaleString()} usable addresses`);
+      } catch (error) {
+        reportError(error, "Error creating pool");
+      }
+    });
+
+  // Allocate addresses
+  pool
+    .command("allocate <name>")
+    .alias("alloc")
+    .description("Allocate the lowest free addresses of a pool")
+    .option("-n, --count <number>", "Number of addresses to allocate", "1")
+    .option("-l, --label <label>", "Label recorded with the allocation")
+    .option("--file <file>", "Pool state file", DEFAULT_STATE_FILE)
+    .option("-p, --plain", "Output plain address list (one per line)")
+    .addHelpText("after", STATE_FILE_HELP)
+    .action(
+      async (
+        name: string,
+        options: FileOption & {
+          count: string;
+          label?: string;
+          plain?: boolean;
+        },
+      ) => {
+        try {
+          const allocations = await allocateAddresses(name, {
+            ...options,
+            count: Number(options.count),
+          });
+          await printAllocations(
+            `Allocated ${addressCount(allocations.length)} from ${name}:`,
+            allocations,
+            options.plain,
+          );
+        } catch (error) {
+          reportError(error, "Error allocating addresses");
+        }
+      },
+    );
+
+  // Release addresses
+  pool
+    .command("release <name> [addresses...]")
+    .description("Return addresses to a pool, by address or by --label")
+    .option("-l, --label <label>", "Release every allocation with this label")
+    .option("--file <file>", "Pool state file", DEFAULT_STATE_FILE)
+    .option("-p, --plain", "Output plain address list (one per line)")
+    .addHelpText("after", STATE_FILE_HELP)
+    .action(
+      async (
+        name: string,
+        addresses: string[],
+        options: FileOption & { label?: string; plain?: boolean },
+      ) => {
+        try {
+          if (addresses.length === 0 && options.label === undefined) {
+            fail(
+              new UsageError(
+                "Nothing to release",
+                "Pass one or more addresses or --label <label>",
+              ),
+            );
+          }
+
+          const released = await releaseAddresses(name, {
+            ...options,
+            ...parseOptions(),
+            addresses,
+          });
+          await printAllocations(
+            `Released ${addressCount(released.length)} from ${name}${released.length > 0 ? ":" : ""}`,
+            released,
+            options.plain,
+          );
+        } catch (error) {
+          reportError(error, "Error releasing addresses");
+        }
+      },
+    );
+
+  // Show one pool
+  pool
+    .command("show <name>")
+    .description("Show the allocations and utilization of a pool")
+    .option("--file <file>", "Pool state file", DEFAULT_STATE_FILE)
+    .option(
+      "-p, --plain",
+      "Output tab-separated values: address label allocatedAt",
+    )
+    .addHelpText("after", STATE_FILE_HELP)
+    .action(async (name: string, options: FileOption & { plain?: boolean }) => {
+      try {
+        const report = showPool(name, options);
+
+        // Structured output mode (--format)
+        if (isStructuredOutput()) {
+          printStructured(poolRows(report));
+          return;
+        }
+
+        // Plain output mode - unlabeled allocations print "-"
+        if (options.plain) {
+          for (const allocation of report.allocations) {
+            await writeLine(
+              `${allocation.address}\t${allocation.label ?? "-"}\t${allocation.allocatedAt}`,
+            );
+          }
+          return;
+        }
+
+        const width = Math.max(
+          0,
+          ...report.allocations.map((allocation) => allocation.address.length),
+        );
+
+        await writeLine(`\n📦 Pool ${report.name}:`);
+        await writeLine(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
+        await writeLine(`Network:     ${report.cidr}`);
+        await writeLine(`Created:     ${report.createdAt}`);
+        await writeLine(
+          `Capacity:    ${report.capacity.toLocaleString()} usable addresses`,
+        );
+        await writeLine(`Allocated:   ${report.allocated.toLocaleString()}`);
+        await writeLine(`Free:        ${report.free.toLocaleString()}`);
+        await writeLine(
+          `Utilization: ${utilizationBar(report.utilization)} ${report.utilization}%`,
+        );
+        await writeLine(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
+
+        if (report.allocations.length === 0) {
+          await writeLine(`  (no allocations)`);
+        }
+        for (const [idx, allocation] of report.allocations.entries()) {
+          await writeLine(
+            `${(idx + 1).toString().padStart(3, " ")}. ${allocation.address.padEnd(width)}  ${(allocation.label ?? "-").padEnd(12)} ${allocation.allocatedAt}`,
+          );
+        }
+        await writeLine("");
+      } catch (error) {
+        reportError(error, "Error showing pool");
+      }
+    });
+
+  // List every pool
+  pool
+    .command("list")
+    .alias("ls")
+    .description("List every pool with its utilization")
+    .option("--file <file>", "Pool state file", DEFAULT_STATE_FILE)
+    .option(
+      "-p, --plain",
+      "Output tab-separated values: name cidr allocated capacity utilization",
+    )
+    .addHelpText("after", STATE_FILE_HELP)
+    .action((options: FileOption & { plain?: boolean }) => {
+      try {
+        const pools = listPools(options);
+
+        // Structured output mode (--format)
+        if (isStructuredOutput()) {
+          printStructured(pools);
+          return;
+        }
+
+        // Plain output mode
+        if (options.plain) {
+          pools.forEach((entry) => {
+            console.log(
+              `${entry.name}\t${entry.cidr}\t${entry.allocated}\t${entry.capacity}\t${entry.utilization}`,
+            );
+          });
+          return;
+        }
+
+        if (pools.length === 0) {
+          console.log(`No pools in ${options.file}`);
+          return;
+        }
+
+        console.log(`\n📦 Pools:`);
+        console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
+        pools.forEach((entry) => {
+          console.log(
+            `  ${entry.name.padEnd(16)} ${entry.cidr.padEnd(20)} ${utilizationBar(entry.utilization)} ${entry.allocated.toLocaleString()} of ${entry.capacity.toLocaleString()} (${entry.utilization}%)`,
+          );
+        });
+        console.log();
+      } catch (error) {
+        reportError(error, "Error listing pools");
+      }
+    });
+}
@@ -0,0 +1,156 @@
+import { Command, Option } from "commander";
+
+import {
+  MAX_RANDOM,
+  RANDOM_CLASSES,
+  RandomClass,
+  randomAddresses,
+} from "@/lib/api/random.js";
+
+import { UsageError } from "@/lib/utils/errors.js";
+
+import { parseOptions } from "@/lib/utils/input.js";
+
+import {
+  fail,
+  isStructuredOutput,
+  printStructured,
+  reportError,
+  writeLine,
+} from "@/lib/utils/output.js";
+
+interface RandomCommandOptions {
+  in?: string;
+  class?: RandomClass;
+  ipv6?: boolean;
+  subnets?: string;
+  count: string;
+  unique?: boolean;
+  seed?: string;
+  plain?: boolean;
+}
+
+/**
+ * Registers the random address generator to the CLI program
+ */
+export function registerRandomCommand(program: Command): void {
+  program
+    .command("random")
+    .description(
+      "Generate reproducible random host addresses or subnets inside a prefix and/or an address class",
+    )
+    .option("--in <cidr>", "Prefix to draw from")
+    .addOption(
+      new Option("--class <class>", "Address class to draw from").choices(
+        RANDOM_CLASSES,
+      ),
+    )
+    .option("-6, --ipv6", "Draw IPv6 addresses when only --class is given")
+    .option(
+      "--subnets <prefix>",
+      "Draw child networks of this prefix length (e.g. /24) instead of addresses",
+    )
+    .option(
+      "-n, --count <number>",
+      `Number of values to draw (at most ${MAX_RANDOM.toLocaleString()})`,
+      "1",
+    )
+    .option("-u, --unique", "Never draw the same value twice")
+    .option(
+      "-s, --seed <seed>",
+      "Seed; the same seed and options give the same output",
+    )
+    .option("-p, --plain", "Output plain list (one per line)")
+    .addHelpText(
+      "after",
+      `
+Host addresses skip the network and broadcast address of --in. Public
+space is everything outside the IANA special-purpose registry (2000::/3
+for IPv6); private and documentation use the registry's blocks. Without
+--seed a random seed is chosen and shown, so a run can be repeated.
+
+Examples:
+  $ ipnav random --in 10.0.0.0/8 --count 1000 --unique --seed 42
+  $ ipnav random --class public --count 20 --plain
+  $ ipnav random --in 10.0.0.0/16 --subnets /24 --count 5 --unique`,
+    )
+    .action(async (options: RandomCommandOptions) => {
+      try {
+        if (options.in === undefined && options.class === undefined) {
+          fail(
+            new UsageError(
+              "Nothing to draw from",
+              "Pass --in <cidr>, --class <class> or both",
+            ),
+          );
+        }
+        if (!/^\d+$/.test(options.count)) {
+          fail(
+            new UsageError(
+              `Invalid count: ${options.count}`,
+              "Expected a positive integer",
+            ),
+          );
+        }
+
+        const sample = randomAddresses({
+          within: options.in,
+          class: options.class,
+          ipv6: options.ipv6,
+          subnets: options.subnets,
+          count: Number(options.count),
+          unique: options.unique,
+          seed: options.seed,
+          ...parseOptions(),
+        });
+        const field = sample.kind === "address" ? "address" : "cidr";
+
+        // Structured output mode (--format)
+        if (isStructuredOutput()) {
+          printStructured(
+            sample.values.map((value, idx) => ({
+              index: idx + 1,
+              [field]: value,
+            })),
+          );
+          return;
+        }
+
+        // Plain output mode
+        if (options.plain) {
+          for (const value of sample.values) {
+            await writeLine(value);
+          }
+          return;
+        }
+
+        const source = [
+          options.in,
+          options.class,
+          options.in === undefined ? `IPv${options.ipv6 ? 6 : 4}` : undefined,
+        ]
+          .filter((part) => part !== undefined)
+          .join(", ");
+
+        await writeLine(
+          `\n🎲 Random ${sample.kind === "address" ? "Addresses" : "Subnets"}:`,
+        );
+        await writeLine(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
+        await writeLine(`Source:      ${source}`);
+        await writeLine(
+          `Population:  ${sample.population.toLocaleString()} ${sample.kind === "address" ? "addresses" : "subnets"}`,
+        );
+        await writeLine(
+          `Seed:        ${sample.seed}${options.seed === undefined ? ` (pass --seed ${sample.seed} to repeat)` : ""}`,
+        );
+        await writeLine(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
+
+        for (const [idx, value] of sample.values.entries()) {
+          await writeLine(`${(idx + 1).toString().padStart(3, " ")}. ${value}`);
+        }
+        await writeLine("");
+      } catch (error) {
+        reportError(error, "Error generating random addresses");
+      }
+    });
+}
@@ -0,0 +1,191 @@
+import { Command } from "commander";
+
+import {
+  setComplement,
+  setIntersect,
+  setSubtract,
+  setUnion,
+} from "@/lib/api/set.js";
+
+import { BlockReport } from "@/lib/utils/cidr.js";
+
+import { parseOptions, readListArgument } from "@/lib/utils/input.js";
+
+import {
+  isStructuredOutput,
+  printStructuredStream,
+  reportError,
+  writeLine,
+} from "@/lib/utils/output.js";
+
+const LIST_ARGUMENT_HELP = `
+Each list is comma-separated CIDRs, ranges (start-end) or addresses,
+"@file" to read one from a file, or "-" to read one from stdin.`;
+
+/**
+ * Reads every list argument into its entries
+ */
+async function readLists(args: string[]): Promise<string[][]> {
+  const lists: string[][] = [];
+  for (const arg of args) {
+    lists.push(await readListArgument(arg));
+  }
+  return lists;
+}
+
+/**
+ * Prints the result of a set operation as a prefix list
+ */
+async function printSetResult(
+  title: string,
+  rows: BlockReport[],
+  plain: boolean | undefined,
+): Promise<void> {
+  // Structured output mode (--format)
+  if (isStructuredOutput()) {
+    await printStructuredStream(rows);
+    return;
+  }
+
+  // Plain output mode
+  if (plain) {
+    for (const row of rows) {
+      await writeLine(row.cidr);
+    }
+    return;
+  }
+
+  const total = rows.reduce((sum, row) => sum + row.totalHosts, 0n);
+
+  await writeLine(`\n🧮 ${title}:`);
+  await writeLine(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
+  await writeLine(`Prefixes:  ${rows.length.toLocaleString()}`);
+  await writeLine(`Addresses: ${total.toLocaleString()}`);
+  await writeLine(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
+  if (rows.length === 0) {
+    await writeLine(`  (empty set)`);
+  }
+  for (const row of rows) {
+    await writeLine(
+      `  ${row.cidr.padEnd(20)} ${row.networkAddress} - ${row.lastAddress} (${row.totalHosts.toLocaleString()} addresses)`,
+    );
+  }
+  await writeLine("");
+}
+
+/**
+ * Registers the set operation commands (union, intersect, subtract,
+ * complement) to the CLI program
+ */
+export function registerSetCommands(program: Command): void {
+  const set = program
+    .command("set")
+    .description(
+      "Set operations on lists of CIDRs and ranges, normalized to minimal CIDRs",
+    );
+
+  // Union of lists
+  set
+    .command("union <lists...>")
+    .description("Addresses in any of the lists")
+    .option("-p, --plain", "Output plain CIDR list (one per line)")
+    .addHelpText("after", LIST_ARGUMENT_HELP)
+    .action(async (args: string[], options: { plain?: boolean }) => {
+      try {
+        await printSetResult(
+          "Union",
+          setUnion(await readLists(args), parseOptions()),
+          options.plain,
+        );
+      } catch (error) {
+        reportError(error, "Error computing union");
+      }
+    });
+
+  // Intersection of lists
+  set
+    .command("intersect <lists...>")
+    .alias("intersection")
+    .description("Addresses present in every list")
+    .option("-p, --plain", "Output plain CIDR list (one per line)")
+    .addHelpText("after", LIST_ARGUMENT_HELP)
+    .action(async (args: string[], options: { plain?: boolean }) => {
+      try {
+        await printSetResult(
+          "Intersection",
+          setIntersect(await readLists(args), parseOptions()),
+          options.plain,
+        );
+      } catch (error) {
+        reportError(error, "Error computing intersection");
+      }
+    });
+
+  // Difference of lists
+  set
+    .command("subtract <base> <lists...>")
+    .alias("difference")
+    .description("Addresses in the base list that are in none of the others")
+    .option("-p, --plain", "Output plain CIDR list (one per line)")
+    .addHelpText("after", LIST_ARGUMENT_HELP)
+    .action(
+      async (base: string, args: string[], options: { plain?: boolean }) => {
+        try {
+          const [from, ...lists] = await readLists([base, ...args]);
+          await printSetResult(
+            "Difference",
+            setSubtract(from, lists, parseOptions()),
+            options.plain,
+          );
+        } catch (error) {
+          reportError(error, "Error computing difference");
+        }
+      },
+    );
+
+  // Complement of lists
+  set
+    .command("complement [lists...]")
+    .description(
+      "Addresses in none of the lists (within the whole IPv4/IPv6 space, or --within)",
+    )
+    .option(
+      "-w, --within <list>",
+      "Universe to complement within (defaults to the whole space of each IP version in the input)",
+    )
+    .option("-6, --ipv6", "Use the IPv6 space when the input is empty")
+    .option(
+      "--public",
+      "Also remove private and special-purpose space (IANA registry), leaving public space only",
+    )
+    .option("-p, --plain", "Output plain CIDR list (one per line)")
+    .addHelpText("after", LIST_ARGUMENT_HELP)
+    .action(
+      async (
+        args: string[],
+        options: {
+          within?: string;
+          ipv6?: boolean;
+          public?: boolean;
+          plain?: boolean;
+        },
+      ) => {
+        try {
+          const within = options.within
+            ? (await readLists([options.within]))[0]
+            : undefined;
+          await printSetResult(
+            "Complement",
+            setComplement(await readLists(args), {
+              ...options,
+              ...parseOptions(),
+              within,
+            }),
+            options.plain,
+          );
+        } catch (error) {
+          reportError(error, "Error computing complement");
+        }
+      },
+    );
+}
@@ -0,0 +1,284 @@
+import { Command } from "commander";
+
+import { spawn } from "child_process";
+import { appendFileSync, existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { Interface, createInterface } from "readline";
+
+import { UsageError } from "@/lib/utils/errors.js";
+
+import { parseOptions } from "@/lib/utils/input.js";
+
+import {
+  errorMessage,
+  getOutputFormat,
+  reportError,
+} from "@/lib/utils/output.js";
+
+const BUILTINS = ["exit", "quit", "help", "vars", "unset"];
+
+const HISTORY_SIZE = 1000;
+
+const SHELL_HELP = `
+Type any ipnav command without the "ipnav" prefix.
+
+Built-ins:
+  name = value   Set a variable, used later as $name or \${name}
+  vars           List variables
+  unset <name>   Remove a variable
+  help           Show the ipnav command list
+  exit, quit     Leave the shell (or press Ctrl-D)
+`;
+
+/**
+ * Splits a command line into arguments, honouring single and double quotes
+ */
+function tokenize(line: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  for (const match of line.matchAll(pattern)) {
+    tokens.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return tokens;
+}
+
+/**
+ * Replaces $name and ${name} with variable values
+ */
+function substitute(line: string, variables: Map<string, string>): string {
+  return line.replace(
+    /\$\{(\w+)\}|\$(\w+)/g,
+    (_, braced: string | undefined, bare: string | undefined) => {
+      const name = (braced ?? bare) as string;
+      const value = variables.get(name);
+      if (value === undefined) {
+        throw new UsageError(`Unknown variable: $${name}`);
+      }
+      return value;
+    },
+  );
+}
+
+/**
+ * Finds a direct subcommand by name or alias
+ */
+function findCommand(parent: Command, name: string): Command | undefined {
+  return parent.commands.find(
+    (command) => command.name() === name || command.aliases().includes(name),
+  );
+}
+
+/**
+ * Names and aliases of the subcommands of a command
+ */
+function commandNames(parent: Command): string[] {
+  return parent.commands.flatMap((command) => [
+    command.name(),
+    ...command.aliases(),
+  ]);
+}
+
+/**
+ * Tab completion: command names and aliases first, then subcommands, option
+ * flags of the command being typed, and $variables
+ */
+function completerFor(program: Command, variables: Map<string, string>) {
+  return (line: string): [string[], string] => {
+    const words = line.trimStart().split(/\s+/);
+    const current = words[words.length - 1];
+
+    let candidates: string[];
+    if (current.startsWith("$")) {
+      candidates = [...variables.keys()].map((name) => `$${name}`);
+    } else if (words.length === 1) {
+      candidates = [
+        ...commandNames(program).filter((name) => name !== "shell"),
+        ...BUILTINS,
+      ];
+    } else {
+      // Walk down nested commands (e.g. "set union") as far as typed
+      let command: Command = program;
+      for (const word of words.slice(0, -1)) {
+        command = findCommand(command, word) ?? command;
+      }
+      candidates = current.startsWith("-")
+        ? command.options.flatMap((option) =>
+            [option.short, option.long].filter(
+              (flag): flag is string => flag !== undefined,
+            ),
+          )
+        : commandNames(command);
+    }
+
+    return [
+      candidates.filter((candidate) => candidate.startsWith(current)).sort(),
+      current,
+    ];
+  };
+}
+
+/**
+ * Loads the most recent history entries, newest first as readline expects
+ */
+function loadHistory(file: string): string[] {
+  if (!existsSync(file)) {
+    return [];
+  }
+  return readFileSync(file, "utf-8")
+    .split("\n")
+    .filter((entry) => entry.trim() !== "")
+    .slice(-HISTORY_SIZE)
+    .reverse();
+}
+
+/**
+ * Runs one ipnav command in a child process, so commands that exit the
+ * process (predicates, errors) end only themselves and not the session.
+ * Ctrl-C interrupts the child and returns to the prompt. On a terminal the
+ * child reads the terminal while the prompt is paused, so "-" input works
+ * (end it with Ctrl-D); when the session itself is read from a pipe, the
+ * piped lines belong to the shell and the child gets no stdin.
+ */
+function runCommand(args: string[], rl: Interface): Promise<number> {
+  const isTTY = process.stdin.isTTY;
+  const ignoreInterrupt = () => {};
+
+  if (isTTY) {
+    rl.pause();
+    process.stdin.setRawMode(false);
+  }
+  process.on("SIGINT", ignoreInterrupt);
+
+  return new Promise((resolve) => {
+    const child = spawn(
+      process.execPath,
+      [...process.execArgv, process.argv[1], ...args],
+      { stdio: [isTTY ? "inherit" : "ignore", "inherit", "inherit"] },
+    );
+    child.on("close", (code) => {
+      process.off("SIGINT", ignoreInterrupt);
+      if (isTTY) {
+        process.stdin.setRawMode(true);
+        rl.resume();
+      }
+      resolve(code ?? 1);
+    });
+  });
+}
+
+/**
+ * Registers the interactive shell command to the CLI program
+ */
+export function registerShellCommand(program: Command): void {
+  program
+    .command("shell")
+    .alias("repl")
+    .description(
+      "Open an interactive prompt that runs ipnav commands without the prefix",
+    )
+    .option(
+      "--history <file>",
+      "History file",
+      process.env.IPNAV_HISTORY ?? join(homedir(), ".ipnav_history"),
+    )
+    .option("--no-history", "Do not load or save history")
+    .action(async (options: { history: string | false }) => {
+      let historyFile = options.history;
+      const variables = new Map<string, string>();
+
+      // Commands inherit the session's --format and --strict-input
+      const format = getOutputFormat();
+      const globalArgs = [
+        ...(format === "text" ? [] : ["--format", format]),
+        ...(parseOptions().strict ? ["--strict-input"] : []),
+      ];
+
+      const rl = createInterface({
+        input: process.stdin,
+        output: process.stdout,
+        prompt: "ipnav> ",
+        completer: completerFor(program, variables),
+        history: historyFile ? loadHistory(historyFile) : [],
+        historySize: HISTORY_SIZE,
+        removeHistoryDuplicates: true,
+      });
+
+      if (process.stdin.isTTY) {
+        console.log(
+          `🌐 ipnav shell - type "help" for commands, "exit" to quit\n`,
+        );
+      }
+
+      rl.on("SIGINT", () => {
+        if (rl.line === "") {
+          console.log(`\n(To exit, type "exit" or press Ctrl-D)`);
+        } else {
+          console.log();
+        }
+        rl.write(null, { ctrl: true, name: "u" });
+        rl.prompt();
+      });
+
+      rl.prompt();
+
+      for await (const rawLine of rl) {
+        const line = rawLine.trim();
+        if (line === "" || line.startsWith("#")) {
+          rl.prompt();
+          continue;
+        }
+        if (historyFile) {
+          // An unwritable history file turns history off, not the session
+          try {
+            appendFileSync(historyFile, `${line}\n`);
+          } catch (error) {
+            console.error(
+              `⚠️  Cannot write history to ${historyFile} (${errorMessage(error)}); history is off for this session`,
+            );
+            historyFile = false;
+          }
+        }
+
+        try {
+          const assignment = line.match(/^([A-Za-z_]\w*)\s*=\s*(.*)$/);
+          if (assignment) {
+            const [value = ""] = tokenize(substitute(assignment[2], variables));
+            variables.set(assignment[1], value);
+            rl.prompt();
+            continue;
+          }
+
+          const [name, ...args] = tokenize(substitute(line, variables));
+
+          if (name === "exit" || name === "quit") {
+            break;
+          }
+          if (name === "vars") {
+            variables.forEach((value, key) => console.log(`${key} = ${value}`));
+          } else if (name === "unset") {
+            args.forEach((key) => variables.delete(key));
+          } else if (name === "shell" || name === "repl") {
+            console.error(`❌ Already in the ipnav shell`);
+          } else if (name === "help" && args.length > 0) {
+            await runCommand([...globalArgs, ...args, "--help"], rl);
+          } else if (name === "help") {
+            await runCommand([...globalArgs, "--help"], rl);
+            console.log(SHELL_HELP);
+          } else {
+            await runCommand([...globalArgs, name, ...args], rl);
+          }
+        } catch (error) {
+          // A bad line (e.g. an unknown variable) must not end the session
+          if (error instanceof UsageError) {
+            console.error(`❌ ${error.message}`);
+          } else {
+            reportError(error, "Shell error");
+          }
+        }
+        rl.prompt();
+      }
+
+      rl.close();
+    });
+}
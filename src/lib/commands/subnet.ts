@@ -1,16 +1,101 @@
 import { Command } from "commander";
 
-import { isValidIPAddress, isValidSubnetMask } from "ip-navigator/validation";
+import {
+  OverlapReport,
+  aggregate,
+  broadcastAddress,
+  conflicts,
+  inSubnet,
+  networkAddress,
+  overlap,
+  planSubnets,
+  splitSubnet,
+  subnetInfo,
+} from "@/lib/api/subnet.js";
+
+import { EXIT_CODES, UsageError } from "@/lib/utils/errors.js";
 
-import { cidrToSubnetMask } from "ip-navigator/conversion";
+import { batchSource, missingArgument, runBatch } from "@/lib/utils/batch.js";
 
 import {
-  calculateBroadcastAddress,
-  calculateNetworkAddress,
-  getSubnetInfo,
-} from "ip-navigator/subnet";
+  collectEntries,
+  parseCountOption,
+  parseOptions,
+} from "@/lib/utils/input.js";
+
+import {
+  exitWithAnswer,
+  fail,
+  isStructuredOutput,
+  printStructured,
+  printStructuredStream,
+  reportError,
+  writeLine,
+} from "@/lib/utils/output.js";
+
+/**
+ * Human-readable sentence for an overlap row
+ */
+function overlapSentence(row: OverlapReport): string {
+  switch (row.relation) {
+    case "equal":
+      return `${row.a} and ${row.b} are identical`;
+    case "contains":
+      return `${row.a} contains ${row.b}`;
+    case "within":
+      return `${row.a} is within ${row.b}`;
+    case "overlaps":
+      return `${row.a} partially overlaps ${row.b}`;
+    case "disjoint":
+      return `${row.a} and ${row.b} do not overlap`;
+  }
+}
+
+/**
+ * Help shared by the commands that take an address and a mask
+ */
+function subnetNotationHelp(argument: string): string {
+  return `
+The subnet can be written as ${argument}/prefix, ${argument}/mask,
+'${argument} mask' (two arguments) or ${argument} --cidr <prefix>. Masks may
+be netmasks or wildcard masks.`;
+}
+
+/**
+ * The mask argument or --cidr, whichever was given
+ */
+function maskArgument(
+  mask: string | undefined,
+  options: { cidr?: string },
+): string | undefined {
+  if (mask !== undefined && options.cidr !== undefined) {
+    fail(
+      new UsageError(
+        `Pass either the mask ${mask} or --cidr ${options.cidr}, not both`,
+      ),
+    );
+  }
+  return mask ?? options.cidr;
+}
 
-import { isIPAddressInSubnet } from "ip-navigator/operation";
+/**
+ * Fails with a usage error when neither the subnet text nor the arguments
+ * carry a mask, so a missing argument exits like any other usage problem
+ */
+function requireMask(
+  subnet: string,
+  mask: string | undefined,
+): string | undefined {
+  if (mask === undefined && !/[\s/]/.test(subnet.trim())) {
+    fail(
+      new UsageError(
+        `Missing subnet mask or prefix length for ${subnet}`,
+        `Use ${subnet}/<prefix>, '${subnet} <mask>' or --cidr <prefix>`,
+      ),
+    );
+  }
+  return mask;
+}
 
 /**
  * Registers all subnet operation commands to the CLI program
@@ -18,64 +103,86 @@ import { isIPAddressInSubnet } from "ip-navigator/operation";
 export function registerSubnetCommands(program: Command): void {
   // Comprehensive subnet information
   program
-    .command("subnet-info <address> [mask]")
+    .command("subnet-info [address] [mask]")
     .alias("sinfo")
-    .description("Get comprehensive subnet information")
-    .option("-c, --cidr <prefix>", "Use CIDR notation instead of subnet mask")
+    .description("Get comprehensive subnet information (IPv4 or IPv6)")
+    .option("-c, --cidr <prefix>", "Prefix length, instead of a mask argument")
+    .option(
+      "-i, --input <file>",
+      "Read entries (address/prefix or 'address mask') from a file, one per line ('-' for stdin)",
+    )
     .option(
       "-p, --plain",
       "Output tab-separated values: network broadcast firstUsable lastUsable totalHosts usableHosts",
     )
     .action(
-      (
-        address: string,
+      async (
+        address: string | undefined,
         mask: string | undefined,
-        options: { cidr?: string; plain?: boolean },
+        options: { cidr?: string; input?: string; plain?: boolean },
       ) => {
-        try {
-          if (!isValidIPAddress(address)) {
-            console.error(`❌ Invalid IP address: ${address}`);
-            process.exit(1);
-          }
+        const source = batchSource(address, options);
+        if (source !== null) {
+          await runBatch(
+            source,
+            {
+              // Lines may carry their own mask in any notation; --cidr (or
+              // the mask argument) applies to lines that carry none
+              evaluate: (entry) =>
+                subnetInfo(
+                  entry,
+                  /[\s/]/.test(entry.trim())
+                    ? undefined
+                    : maskArgument(mask, options),
+                  parseOptions(),
+                ),
+              plain: (result) =>
+                `${result.networkAddress}\t${result.lastAddress}\t${result.firstUsableHost}\t${result.lastUsableHost}\t${result.totalHosts}\t${result.usableHosts}`,
+            },
+            options,
+          );
+          return;
+        }
+        if (address === undefined) {
+          missingArgument("address");
+        }
 
-          let subnetMask: string;
+        try {
+          const info = subnetInfo(
+            address,
+            requireMask(address, maskArgument(mask, options)),
+            parseOptions(),
+          );
 
-          if (options.cidr) {
-            const cidr = parseInt(options.cidr, 10);
-            if (isNaN(cidr) || cidr < 0 || cidr > 32) {
-              console.error(`❌ Invalid CIDR prefix: ${options.cidr}`);
-              process.exit(1);
-            }
-            subnetMask = cidrToSubnetMask(cidr);
-          } else if (mask) {
-            if (!isValidSubnetMask(mask)) {
-              console.error(`❌ Invalid subnet mask: ${mask}`);
-              process.exit(1);
-            }
-            subnetMask = mask;
-          } else {
-            console.error(
-              "❌ Please provide either a subnet mask or use --cidr flag",
-            );
-            process.exit(1);
+          // Structured output mode (--format) - IPv6 has no broadcast address
+          if (isStructuredOutput()) {
+            printStructured(info);
+            return;
           }
 
-          const info = getSubnetInfo(address, subnetMask);
-
-          // Plain output mode - tab separated for easy parsing
+          // Plain output mode - tab separated for easy parsing; IPv6 puts
+          // the last address in place of broadcast
           if (options.plain) {
             console.log(
-              `${info.networkAddress}\t${info.broadcastAddress}\t${info.firstUsableHost}\t${info.lastUsableHost}\t${info.totalHosts}\t${info.usableHosts}`,
+              `${info.networkAddress}\t${info.lastAddress}\t${info.firstUsableHost}\t${info.lastUsableHost}\t${info.totalHosts}\t${info.usableHosts}`,
             );
             return;
           }
 
           console.log(`\n📊 Subnet Information:`);
           console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
-          console.log(`IP Address:        ${address}`);
-          console.log(`Subnet Mask:       ${subnetMask}`);
-          console.log(`Network Address:   ${info.networkAddress}`);
-          console.log(`Broadcast Address: ${info.broadcastAddress}`);
+          console.log(`IP Address:        ${info.address}`);
+          if (info.version === 6) {
+            console.log(`Prefix Length:     /${info.prefix}`);
+            console.log(`Wildcard Mask:     ${info.wildcardMask}`);
+            console.log(`Network Address:   ${info.networkAddress}`);
+            console.log(`Last Address:      ${info.lastAddress}`);
+          } else {
+            console.log(`Subnet Mask:       ${info.subnetMask}`);
+            console.log(`Wildcard Mask:     ${info.wildcardMask}`);
+            console.log(`Network Address:   ${info.networkAddress}`);
+            console.log(`Broadcast Address: ${info.broadcastAddress}`);
+          }
           console.log(`First Usable:      ${info.firstUsableHost}`);
           console.log(`Last Usable:       ${info.lastUsableHost}`);
           console.log(`Total Hosts:       ${info.totalHosts.toLocaleString()}`);
@@ -84,140 +191,504 @@ export function registerSubnetCommands(program: Command): void {
           );
           console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
         } catch (error) {
-          console.error(
-            `❌ Error calculating subnet info: ${
-              error instanceof Error ? error.message : String(error)
-            }`,
-          );
-          process.exit(1);
+          reportError(error, "Error calculating subnet info");
         }
       },
-    );
+    )
+    .addHelpText("after", subnetNotationHelp("address"));
 
   // Network address calculation
   program
-    .command("network-address <address> <mask>")
+    .command("network-address <address> [mask]")
     .alias("netaddr")
-    .description("Calculate network address from IP and subnet mask")
+    .description(
+      "Calculate network address from IP and subnet mask, wildcard mask or prefix length",
+    )
+    .option("-c, --cidr <prefix>", "Prefix length, instead of a mask argument")
     .option("-p, --plain", "Output only the network address")
-    .action((address: string, mask: string, options: { plain?: boolean }) => {
-      try {
-        if (!isValidIPAddress(address)) {
-          console.error(`❌ Invalid IP address: ${address}`);
-          process.exit(1);
+    .addHelpText("after", subnetNotationHelp("address"))
+    .action(
+      (
+        address: string,
+        mask: string | undefined,
+        options: { cidr?: string; plain?: boolean },
+      ) => {
+        try {
+          const result = networkAddress(
+            address,
+            requireMask(address, maskArgument(mask, options)),
+            parseOptions(),
+          );
+
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(result);
+            return;
+          }
+
+          // Plain output mode
+          if (options.plain) {
+            console.log(result.networkAddress);
+            return;
+          }
+
+          console.log(`Network Address: ${result.networkAddress}`);
+        } catch (error) {
+          reportError(error, "Error calculating network address");
         }
-        if (!isValidSubnetMask(mask)) {
-          console.error(`❌ Invalid subnet mask: ${mask}`);
-          process.exit(1);
+      },
+    );
+
+  // Broadcast address calculation
+  program
+    .command("broadcast-address <address> [mask]")
+    .alias("bcast")
+    .description(
+      "Calculate broadcast address from IP and subnet mask, wildcard mask or prefix length (last address for IPv6)",
+    )
+    .option("-c, --cidr <prefix>", "Prefix length, instead of a mask argument")
+    .option("-p, --plain", "Output only the broadcast address")
+    .addHelpText("after", subnetNotationHelp("address"))
+    .action(
+      (
+        address: string,
+        mask: string | undefined,
+        options: { cidr?: string; plain?: boolean },
+      ) => {
+        try {
+          const result = broadcastAddress(
+            address,
+            requireMask(address, maskArgument(mask, options)),
+            parseOptions(),
+          );
+
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(result);
+            return;
+          }
+
+          // Plain output mode
+          if (options.plain) {
+            console.log(result.lastAddress);
+            return;
+          }
+
+          // IPv6 has no broadcast, so report the last address of the prefix
+          console.log(
+            result.broadcastAddress === null
+              ? `Last Address: ${result.lastAddress}`
+              : `Broadcast Address: ${result.broadcastAddress}`,
+          );
+        } catch (error) {
+          reportError(error, "Error calculating broadcast address");
         }
+      },
+    );
+
+  // Check if IP is in subnet
+  program
+    .command("in-subnet <address> <network> [mask]")
+    .alias("insubnet")
+    .description(
+      "Check if an IP address belongs to a subnet (mask, prefix length or wildcard mask, non-contiguous wildcards included)",
+    )
+    .option("-c, --cidr <prefix>", "Prefix length, instead of a mask argument")
+    .option("-p, --plain", "Output only 'true' or 'false'")
+    .option("--strict", "Print nothing; answer only through the exit status")
+    .addHelpText("after", subnetNotationHelp("network"))
+    .action(
+      (
+        address: string,
+        network: string,
+        mask: string | undefined,
+        options: { cidr?: string; plain?: boolean; strict?: boolean },
+      ) => {
+        try {
+          const result = inSubnet(
+            address,
+            network,
+            requireMask(network, maskArgument(mask, options)),
+            parseOptions(),
+          );
+          const isInSubnet = result.inSubnet;
 
-        const networkAddr = calculateNetworkAddress(address, mask);
+          if (options.strict) {
+            exitWithAnswer(isInSubnet);
+          }
 
-        // Plain output mode
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(result);
+            exitWithAnswer(isInSubnet);
+          }
+
+          // Plain output mode
+          if (options.plain) {
+            console.log(isInSubnet ? "true" : "false");
+            exitWithAnswer(isInSubnet);
+          }
+
+          // A non-contiguous wildcard describes a pattern, not a subnet
+          if (!result.contiguous) {
+            console.log(
+              `${isInSubnet ? "✅" : "❌"} ${address} ${isInSubnet ? "matches" : "does NOT match"} ${result.network} wildcard ${result.wildcardMask} (non-contiguous)`,
+            );
+          } else if (isInSubnet) {
+            console.log(
+              `✅ ${address} belongs to subnet ${result.network}/${result.mask}`,
+            );
+          } else {
+            console.log(
+              `❌ ${address} does NOT belong to subnet ${result.network}/${result.mask}`,
+            );
+          }
+          exitWithAnswer(isInSubnet);
+        } catch (error) {
+          reportError(error, "Error checking subnet membership");
+        }
+      },
+    );
+
+  // Split a subnet into equal child subnets
+  program
+    .command("subnet-split <network>")
+    .alias("split")
+    .description(
+      "Split a network (CIDR notation) into child subnets of a longer prefix",
+    )
+    .requiredOption(
+      "-P, --prefix <prefix>",
+      "Prefix length of each child subnet",
+    )
+    .option(
+      "-l, --limit <number>",
+      "Limit output to specified number of subnets (formatted output shows 100 by default)",
+    )
+    .option("-o, --offset <number>", "Skip the first N child subnets", "0")
+    .option("-p, --plain", "Output plain CIDR list (one per line)")
+    .action(
+      async (
+        network: string,
+        options: {
+          prefix: string;
+          limit?: string;
+          offset: string;
+          plain?: boolean;
+        },
+      ) => {
+        try {
+          const offset = parseCountOption(options.offset, "Offset", 0n);
+          const limit =
+            options.limit === undefined
+              ? undefined
+              : parseCountOption(options.limit, "Limit", 1n);
+          const split = splitSubnet(network, options.prefix, {
+            offset,
+            limit,
+            ...parseOptions(),
+          });
+
+          // Structured output mode (--format) - children are generated
+          // lazily and streamed, numbered from the start of the network
+          if (isStructuredOutput()) {
+            await printStructuredStream(
+              (function* () {
+                let index = offset;
+                for (const row of split.subnets) {
+                  index++;
+                  yield { index, ...row };
+                }
+              })(),
+            );
+            return;
+          }
+
+          // Plain output mode - streamed like structured output
+          if (options.plain) {
+            for (const row of split.subnets) {
+              await writeLine(row.cidr);
+            }
+            return;
+          }
+
+          console.log(`\n✂️  Subnet Split:`);
+          console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
+          console.log(`Network:     ${split.network}`);
+          console.log(`New Prefix:  /${split.newPrefix}`);
+          console.log(`Subnets:     ${split.count.toLocaleString()}`);
+          console.log(
+            `Hosts Each:  ${split.usableHostsEach.toLocaleString()} usable`,
+          );
+          console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
+
+          const remaining = split.count - offset;
+          const shownLimit = limit ?? 100n;
+          const shown = remaining < shownLimit ? remaining : shownLimit;
+
+          let index = offset;
+          for (const row of split.subnets) {
+            if (index - offset >= shown) {
+              break;
+            }
+            index++;
+            await writeLine(
+              `${index.toString().padStart(3, " ")}. ${row.cidr.padEnd(20)} ${row.firstUsableHost} - ${row.lastUsableHost}`,
+            );
+          }
+
+          if (remaining > shown) {
+            console.log(
+              `\n... and ${(remaining - shown).toLocaleString()} more subnets`,
+            );
+            console.log(
+              `\nTip: Use --limit N to show more, --offset N to page or --plain for all`,
+            );
+          }
+        } catch (error) {
+          reportError(error, "Error splitting subnet");
+        }
+      },
+    );
+
+  // Variable-length subnet mask planner
+  program
+    .command("vlsm <network>")
+    .description(
+      "Plan right-sized subnets for a list of host counts (largest first)",
+    )
+    .requiredOption(
+      "-H, --hosts <list>",
+      "Comma-separated host counts (e.g., 200,100,50,10)",
+    )
+    .option(
+      "-p, --plain",
+      "Output tab-separated values: requested cidr firstUsable lastUsable usableHosts",
+    )
+    .action((network: string, options: { hosts: string; plain?: boolean }) => {
+      try {
+        const plan = planSubnets(
+          network,
+          options.hosts.split(","),
+          parseOptions(),
+        );
+
+        // Structured output mode (--format)
+        if (isStructuredOutput()) {
+          printStructured(plan.rows);
+          return;
+        }
+
+        // Plain output mode - free blocks use "free" as the requested count
         if (options.plain) {
-          console.log(networkAddr);
+          plan.rows.forEach((row) => {
+            console.log(
+              `${row.requested ?? "free"}\t${row.cidr}\t${row.firstUsableHost}\t${row.lastUsableHost}\t${row.usableHosts}`,
+            );
+          });
           return;
         }
 
-        console.log(`Network Address: ${networkAddr}`);
-      } catch (error) {
-        console.error(
-          `❌ Error calculating network address: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
+        const used = plan.allocatedAddresses;
+        const size = plan.totalAddresses;
+
+        console.log(`\n🧮 VLSM Plan:`);
+        console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
+        console.log(`Network:     ${plan.network}`);
+        console.log(
+          `Allocated:   ${used.toLocaleString()} of ${size.toLocaleString()} addresses (${((Number(used) / Number(size)) * 100).toFixed(1)}%)`,
         );
-        process.exit(1);
+        console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
+
+        plan.rows.forEach((row) => {
+          const label = row.type === "free" ? "free" : `${row.requested} hosts`;
+          console.log(
+            `${label.padStart(12, " ")}  ${row.cidr.padEnd(20)} ${row.firstUsableHost} - ${row.lastUsableHost} (${row.usableHosts.toLocaleString()} usable)`,
+          );
+        });
+        console.log();
+      } catch (error) {
+        reportError(error, "Error planning subnets");
       }
     });
 
-  // Broadcast address calculation
+  // Aggregate / summarize prefixes
   program
-    .command("broadcast-address <address> <mask>")
-    .alias("bcast")
-    .description("Calculate broadcast address from IP and subnet mask")
-    .option("-p, --plain", "Output only the broadcast address")
-    .action((address: string, mask: string, options: { plain?: boolean }) => {
-      try {
-        if (!isValidIPAddress(address)) {
-          console.error(`❌ Invalid IP address: ${address}`);
-          process.exit(1);
-        }
-        if (!isValidSubnetMask(mask)) {
-          console.error(`❌ Invalid subnet mask: ${mask}`);
-          process.exit(1);
+    .command("aggregate [entries...]")
+    .alias("agg")
+    .description(
+      "Collapse CIDRs, ranges (start-end) and addresses into the minimal set of prefixes (reads stdin when no entries are given)",
+    )
+    .option(
+      "-s, --supernet",
+      "Output the single smallest prefix containing every entry",
+    )
+    .option("-p, --plain", "Output plain CIDR list (one per line)")
+    .action(
+      async (
+        entries: string[],
+        options: { supernet?: boolean; plain?: boolean },
+      ) => {
+        try {
+          const inputs = await collectEntries(entries);
+          if (inputs.length === 0) {
+            fail(
+              new UsageError(
+                "No entries provided",
+                "Pass CIDRs or ranges as arguments or on stdin",
+              ),
+            );
+          }
+
+          const rows = aggregate(inputs, { ...options, ...parseOptions() });
+
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(rows);
+            return;
+          }
+
+          // Plain output mode
+          if (options.plain) {
+            rows.forEach((row) => console.log(row.cidr));
+            return;
+          }
+
+          console.log(
+            options.supernet ? `\n🧩 Supernet:` : `\n🧩 Aggregated Prefixes:`,
+          );
+          console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
+          console.log(`Entries:   ${inputs.length.toLocaleString()}`);
+          console.log(`Prefixes:  ${rows.length.toLocaleString()}`);
+          console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
+          rows.forEach((row) => {
+            console.log(
+              `  ${row.cidr.padEnd(20)} ${row.networkAddress} - ${row.lastAddress} (${row.totalHosts.toLocaleString()} addresses)`,
+            );
+          });
+          console.log();
+        } catch (error) {
+          reportError(error, "Error aggregating prefixes");
         }
+      },
+    );
+
+  // Overlap between two subnets
+  program
+    .command("overlap <first> <second>")
+    .description(
+      "Check whether two CIDRs or ranges (start-end) overlap and show the shared addresses",
+    )
+    .option(
+      "-p, --plain",
+      "Output only the relation (equal, contains, within, overlaps or disjoint)",
+    )
+    .action((first: string, second: string, options: { plain?: boolean }) => {
+      try {
+        const row = overlap(first, second, parseOptions());
 
-        const broadcastAddr = calculateBroadcastAddress(address, mask);
+        // Structured output mode (--format)
+        if (isStructuredOutput()) {
+          printStructured(row);
+          return;
+        }
 
         // Plain output mode
         if (options.plain) {
-          console.log(broadcastAddr);
+          console.log(row.relation);
           return;
         }
 
-        console.log(`Broadcast Address: ${broadcastAddr}`);
+        console.log(`\n🔀 Overlap Check:`);
+        console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
+        console.log(`First:        ${first}`);
+        console.log(`Second:       ${second}`);
+        console.log(`Overlap:      ${row.overlaps ? "⚠️  Yes" : "✅ No"}`);
+        console.log(`Relation:     ${overlapSentence(row)}`);
+        if (row.overlaps) {
+          console.log(
+            `Intersection: ${row.intersectionStart} - ${row.intersectionEnd} (${row.intersectionSize.toLocaleString()} addresses)`,
+          );
+        }
+        console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
       } catch (error) {
-        console.error(
-          `❌ Error calculating broadcast address: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-        );
-        process.exit(1);
+        reportError(error, "Error checking overlap");
       }
     });
 
-  // Check if IP is in subnet
+  // Conflict detection across a list of subnets
   program
-    .command("in-subnet <address> <network> <mask>")
-    .alias("insubnet")
-    .description("Check if an IP address belongs to a subnet")
-    .option("-p, --plain", "Output only 'true' or 'false'")
+    .command("conflicts [entries...]")
+    .description(
+      "Report every pair of overlapping CIDRs or ranges in a list (reads stdin when no entries are given)",
+    )
+    .option(
+      "-i, --input <file>",
+      "Read entries from a file (whitespace or comma separated, # comments)",
+    )
+    .option(
+      "-p, --plain",
+      "Output tab-separated values: first second relation intersectionStart intersectionEnd",
+    )
     .action(
-      (
-        address: string,
-        network: string,
-        mask: string,
-        options: { plain?: boolean },
+      async (
+        entries: string[],
+        options: { input?: string; plain?: boolean },
       ) => {
         try {
-          if (!isValidIPAddress(address)) {
-            console.error(`❌ Invalid IP address: ${address}`);
-            process.exit(1);
-          }
-          if (!isValidIPAddress(network)) {
-            console.error(`❌ Invalid network address: ${network}`);
-            process.exit(1);
-          }
-          if (!isValidSubnetMask(mask)) {
-            console.error(`❌ Invalid subnet mask: ${mask}`);
-            process.exit(1);
+          const inputs = await collectEntries(entries, options.input);
+          if (inputs.length === 0) {
+            fail(
+              new UsageError(
+                "No entries provided",
+                "Pass CIDRs or ranges as arguments, on stdin or with --input <file>",
+              ),
+            );
           }
 
-          const isInSubnet = isIPAddressInSubnet(address, network, mask);
+          const rows = conflicts(inputs, parseOptions());
+
+          // Conflicts make the run fail so allocation checks can gate CI
+          process.exitCode =
+            rows.length > 0 ? EXIT_CODES.predicateFalse : EXIT_CODES.success;
+
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured(rows);
+            return;
+          }
 
           // Plain output mode
           if (options.plain) {
-            console.log(isInSubnet ? "true" : "false");
-            process.exit(isInSubnet ? 0 : 1);
+            rows.forEach((row) =>
+              console.log(
+                `${row.a}\t${row.b}\t${row.relation}\t${row.intersectionStart}\t${row.intersectionEnd}`,
+              ),
+            );
             return;
           }
 
-          if (isInSubnet) {
-            console.log(`✅ ${address} belongs to subnet ${network}/${mask}`);
-            process.exit(0);
-          } else {
+          if (rows.length === 0) {
             console.log(
-              `❌ ${address} does NOT belong to subnet ${network}/${mask}`,
+              `\n✅ No conflicts among ${inputs.length.toLocaleString()} entries\n`,
             );
-            process.exit(1);
+            return;
           }
-        } catch (error) {
-          console.error(
-            `❌ Error checking subnet membership: ${
-              error instanceof Error ? error.message : String(error)
-            }`,
+
+          console.log(
+            `\n⚠️  Found ${rows.length.toLocaleString()} conflicts among ${inputs.length.toLocaleString()} entries:\n`,
           );
-          process.exit(1);
+          rows.forEach((row, idx) => {
+            console.log(
+              `${(idx + 1).toString().padStart(3, " ")}. ${overlapSentence(row)}`,
+            );
+            console.log(
+              `     shared: ${row.intersectionStart} - ${row.intersectionEnd} (${row.intersectionSize.toLocaleString()} addresses)`,
+            );
+          });
+          console.log();
+        } catch (error) {
+          reportError(error, "Error checking conflicts");
         }
       },
     );
@@ -1,10 +1,27 @@
 import { Command } from "commander";
 
 import {
-  isValidIPAddress,
-  isValidSubnetMask,
-  isValidCIDR,
-} from "ip-navigator/validation";
+  validateBatch,
+  validateCIDR,
+  validateIP,
+  validateMask,
+} from "@/lib/api/validation.js";
+
+import {
+  exitWithAnswer,
+  isStructuredOutput,
+  printError,
+  printStructured,
+  reportError,
+} from "@/lib/utils/output.js";
+
+import { batchSource, missingArgument, runBatch } from "@/lib/utils/batch.js";
+
+const INPUT_OPTION_DESCRIPTION =
+  "Read entries from a file, one per line ('-' for stdin)";
+
+const STRICT_OPTION_DESCRIPTION =
+  "Print nothing; answer only through the exit status";
 
 /**
  * Registers all IP validation commands to the CLI program
@@ -12,114 +29,194 @@ import {
 export function registerValidationCommands(program: Command): void {
   // Validate IP address command
   program
-    .command("validate-ip <address>")
+    .command("validate-ip [address]")
     .alias("vip")
-    .description("Validate an IPv4 address")
+    .description("Validate an IPv4 or IPv6 address")
+    .option("-i, --input <file>", INPUT_OPTION_DESCRIPTION)
     .option("-p, --plain", "Output only 'valid' or 'invalid'")
-    .action((address: string, options: { plain?: boolean }) => {
-      try {
-        const isValid = isValidIPAddress(address);
-
-        // Plain output mode
-        if (options.plain) {
-          console.log(isValid ? "valid" : "invalid");
-          process.exit(isValid ? 0 : 1);
+    .option("--strict", STRICT_OPTION_DESCRIPTION)
+    .action(
+      async (
+        address: string | undefined,
+        options: { input?: string; plain?: boolean; strict?: boolean },
+      ) => {
+        const source = batchSource(address, options);
+        if (source !== null) {
+          await runBatch(
+            source,
+            {
+              evaluate: validateIP,
+              plain: (result) => (result.valid ? "valid" : "invalid"),
+              failed: (result) => !result.valid,
+            },
+            options,
+          );
           return;
         }
+        if (address === undefined) {
+          missingArgument("address");
+        }
 
-        if (isValid) {
-          console.log(`✅ Valid IP address: ${address}`);
-          process.exit(0);
-        } else {
-          console.error(`❌ Invalid IP address: ${address}`);
-          console.error(
-            "Expected format: xxx.xxx.xxx.xxx (0-255 for each octet)",
-          );
-          process.exit(1);
+        try {
+          const { version, valid: isValid } = validateIP(address);
+
+          if (options.strict) {
+            exitWithAnswer(isValid);
+          }
+
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured({ address, valid: isValid, version });
+            exitWithAnswer(isValid);
+          }
+
+          // Plain output mode
+          if (options.plain) {
+            console.log(isValid ? "valid" : "invalid");
+            exitWithAnswer(isValid);
+          }
+
+          if (isValid) {
+            console.log(`✅ Valid IPv${version} address: ${address}`);
+          } else {
+            printError(`Invalid IP address: ${address}`, [
+              "Expected format: xxx.xxx.xxx.xxx (0-255 for each octet) or an IPv6 address (e.g., 2001:db8::1)",
+            ]);
+          }
+          exitWithAnswer(isValid);
+        } catch (error) {
+          reportError(error, "Error validating IP address");
         }
-      } catch (error) {
-        console.error(
-          `❌ Error validating IP address: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-        );
-        process.exit(1);
-      }
-    });
+      },
+    );
 
   // Validate subnet mask command
   program
-    .command("validate-mask <mask>")
+    .command("validate-mask [mask]")
     .alias("vmask")
-    .description("Validate a subnet mask")
+    .description("Validate a subnet mask (IPv4 or IPv6)")
+    .option("-i, --input <file>", INPUT_OPTION_DESCRIPTION)
     .option("-p, --plain", "Output only 'valid' or 'invalid'")
-    .action((mask: string, options: { plain?: boolean }) => {
-      try {
-        const isValid = isValidSubnetMask(mask);
-
-        // Plain output mode
-        if (options.plain) {
-          console.log(isValid ? "valid" : "invalid");
-          process.exit(isValid ? 0 : 1);
+    .option("--strict", STRICT_OPTION_DESCRIPTION)
+    .action(
+      async (
+        mask: string | undefined,
+        options: { input?: string; plain?: boolean; strict?: boolean },
+      ) => {
+        const source = batchSource(mask, options);
+        if (source !== null) {
+          await runBatch(
+            source,
+            {
+              evaluate: validateMask,
+              plain: (result) => (result.valid ? "valid" : "invalid"),
+              failed: (result) => !result.valid,
+            },
+            options,
+          );
           return;
         }
+        if (mask === undefined) {
+          missingArgument("mask");
+        }
 
-        if (isValid) {
-          console.log(`✅ Valid subnet mask: ${mask}`);
-          process.exit(0);
-        } else {
-          console.error(`❌ Invalid subnet mask: ${mask}`);
-          console.error(
-            "Expected format: valid contiguous binary mask (e.g., 255.255.255.0)",
-          );
-          process.exit(1);
+        try {
+          const isValid = validateMask(mask).valid;
+
+          if (options.strict) {
+            exitWithAnswer(isValid);
+          }
+
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured({ mask, valid: isValid });
+            exitWithAnswer(isValid);
+          }
+
+          // Plain output mode
+          if (options.plain) {
+            console.log(isValid ? "valid" : "invalid");
+            exitWithAnswer(isValid);
+          }
+
+          if (isValid) {
+            console.log(`✅ Valid subnet mask: ${mask}`);
+          } else {
+            printError(`Invalid subnet mask: ${mask}`, [
+              "Expected format: valid contiguous binary mask (e.g., 255.255.255.0)",
+            ]);
+          }
+          exitWithAnswer(isValid);
+        } catch (error) {
+          reportError(error, "Error validating subnet mask");
         }
-      } catch (error) {
-        console.error(
-          `❌ Error validating subnet mask: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-        );
-        process.exit(1);
-      }
-    });
+      },
+    );
 
   // Validate CIDR notation command
   program
-    .command("validate-cidr <cidr>")
+    .command("validate-cidr [cidr]")
     .alias("vcidr")
-    .description("Validate CIDR notation (e.g., 192.168.1.0/24)")
+    .description(
+      "Validate CIDR notation (e.g., 192.168.1.0/24 or 2001:db8::/32)",
+    )
+    .option("-i, --input <file>", INPUT_OPTION_DESCRIPTION)
     .option("-p, --plain", "Output only 'valid' or 'invalid'")
-    .action((cidr: string, options: { plain?: boolean }) => {
-      try {
-        const isValid = isValidCIDR(cidr);
-
-        // Plain output mode
-        if (options.plain) {
-          console.log(isValid ? "valid" : "invalid");
-          process.exit(isValid ? 0 : 1);
+    .option("--strict", STRICT_OPTION_DESCRIPTION)
+    .action(
+      async (
+        cidr: string | undefined,
+        options: { input?: string; plain?: boolean; strict?: boolean },
+      ) => {
+        const source = batchSource(cidr, options);
+        if (source !== null) {
+          await runBatch(
+            source,
+            {
+              evaluate: validateCIDR,
+              plain: (result) => (result.valid ? "valid" : "invalid"),
+              failed: (result) => !result.valid,
+            },
+            options,
+          );
           return;
         }
+        if (cidr === undefined) {
+          missingArgument("cidr");
+        }
 
-        if (isValid) {
-          console.log(`✅ Valid CIDR notation: ${cidr}`);
-          process.exit(0);
-        } else {
-          console.error(`❌ Invalid CIDR notation: ${cidr}`);
-          console.error(
-            "Expected format: xxx.xxx.xxx.xxx/yy (IP address with /0-32 prefix)",
-          );
-          process.exit(1);
+        try {
+          const isValid = validateCIDR(cidr).valid;
+
+          if (options.strict) {
+            exitWithAnswer(isValid);
+          }
+
+          // Structured output mode (--format)
+          if (isStructuredOutput()) {
+            printStructured({ cidr, valid: isValid });
+            exitWithAnswer(isValid);
+          }
+
+          // Plain output mode
+          if (options.plain) {
+            console.log(isValid ? "valid" : "invalid");
+            exitWithAnswer(isValid);
+          }
+
+          if (isValid) {
+            console.log(`✅ Valid CIDR notation: ${cidr}`);
+          } else {
+            printError(`Invalid CIDR notation: ${cidr}`, [
+              "Expected format: xxx.xxx.xxx.xxx/yy (IPv4 with /0-32 prefix) or IPv6 with /0-128 prefix",
+            ]);
+          }
+          exitWithAnswer(isValid);
+        } catch (error) {
+          reportError(error, "Error validating CIDR");
         }
-      } catch (error) {
-        console.error(
-          `❌ Error validating CIDR: ${
-            error instanceof Error ? error.message : String(error)
-          }`,
-        );
-        process.exit(1);
-      }
-    });
+      },
+    );
 
   // Batch validation command - validate multiple IPs
   program
@@ -128,16 +225,35 @@ export function registerValidationCommands(program: Command): void {
     .description("Validate multiple IP addresses at once")
     .option("-q, --quiet", "Only show invalid addresses")
     .option("-p, --plain", "Output only IP addresses (valid IPs only)")
+    .option("--strict", STRICT_OPTION_DESCRIPTION)
     .action(
-      (addresses: string[], options: { quiet?: boolean; plain?: boolean }) => {
-        const results = addresses.map((address) => ({
+      (
+        addresses: string[],
+        options: { quiet?: boolean; plain?: boolean; strict?: boolean },
+      ) => {
+        const results = validateBatch(addresses).map(({ address, valid }) => ({
           address,
-          isValid: isValidIPAddress(address),
+          isValid: valid,
         }));
 
         const validCount = results.filter((r) => r.isValid).length;
         const invalidCount = results.length - validCount;
 
+        if (options.strict) {
+          exitWithAnswer(invalidCount === 0);
+        }
+
+        // Structured output mode (--format) - one row per address
+        if (isStructuredOutput()) {
+          printStructured(
+            results.map(({ address, isValid }) => ({
+              address,
+              valid: isValid,
+            })),
+          );
+          exitWithAnswer(invalidCount === 0);
+        }
+
         // Plain output mode - only valid IPs, one per line
         if (options.plain) {
           results.forEach(({ address, isValid }) => {
@@ -145,8 +261,7 @@ export function registerValidationCommands(program: Command): void {
               console.log(address);
             }
           });
-          process.exit(invalidCount > 0 ? 1 : 0);
-          return;
+          exitWithAnswer(invalidCount === 0);
         }
 
         if (!options.quiet) {
@@ -165,7 +280,7 @@ export function registerValidationCommands(program: Command): void {
         console.log(
           `📊 Summary: ${validCount} valid, ${invalidCount} invalid (${results.length} total)`,
         );
-        process.exit(invalidCount > 0 ? 1 : 0);
+        exitWithAnswer(invalidCount === 0);
       },
     );
 }
@@ -23,12 +23,26 @@ const packageJson = JSON.parse(
   readFileSync(findPackageJson(__dirname), "utf-8")
 );
 
-import { Command } from "commander";
+import { Command, Option } from "commander";
 
 import { registerValidationCommands } from "@/lib/commands/validation.js";
 import { registerConversionCommands } from "@/lib/commands/conversion.js";
 import { registerSubnetCommands } from "@/lib/commands/subnet.js";
 import { registerOperationCommands } from "@/lib/commands/operation.js";
+import { registerSetCommands } from "@/lib/commands/set.js";
+import { registerPoolCommands } from "@/lib/commands/pool.js";
+import { registerAclCommand } from "@/lib/commands/acl.js";
+import { registerMapCommand } from "@/lib/commands/map.js";
+import { registerRandomCommand } from "@/lib/commands/random.js";
+import { registerShellCommand } from "@/lib/commands/shell.js";
+import { registerCompletionCommand } from "@/lib/commands/completion.js";
+import {
+  OUTPUT_FORMATS,
+  OutputFormat,
+  setOutputFormat,
+} from "@/lib/utils/output.js";
+import { setStrictInput } from "@/lib/utils/input.js";
+import { EXIT_CODES } from "@/lib/utils/errors.js";
 
 const program = new Command();
 
@@ -36,8 +50,27 @@ program
   .name("ipnav")
   .description("🌐 CLI tool for IP address operations powered by ip-navigator")
   .version(packageJson.version, "-v, --version", "Display version number")
+  .addOption(
+    new Option("-f, --format <format>", "Output format for every command")
+      .choices(OUTPUT_FORMATS)
+      .default("text"),
+  )
+  .addOption(
+    new Option("--json", "Shorthand for --format json").implies({
+      format: "json",
+    }),
+  )
+  .option(
+    "--strict-input",
+    "Accept canonical addresses only (no hex, octal, shorthand, integer or IPv4-mapped forms)",
+  )
   .showHelpAfterError("(add --help for additional information)")
   .showSuggestionAfterError()
+  // Command-line mistakes (unknown options, missing arguments, bad choices)
+  // exit with the usage status; --help and --version still exit 0
+  .exitOverride((error) => {
+    process.exit(error.exitCode === 0 ? EXIT_CODES.success : EXIT_CODES.usage);
+  })
   .addHelpText(
     "after",
     `
@@ -47,6 +80,7 @@ Examples:
   $ ipnav convert 10.0.0.1
   $ ipnav classify 8.8.8.8
   $ ipnav range 192.168.1.1 192.168.1.10
+  $ ipnav subnet-info 10.0.0.1 --cidr 8 --format json
 
 For more information on a specific command:
   $ ipnav <command> --help
@@ -54,17 +88,31 @@ For more information on a specific command:
 Documentation: https://www.npmjs.com/package/ip-navigator-cli`
   );
 
+// Apply the global output format and input mode before any command runs
+program.hook("preAction", () => {
+  const options = program.opts<{ format: OutputFormat; strictInput?: boolean }>();
+  setOutputFormat(options.format);
+  setStrictInput(options.strictInput ?? false);
+});
+
 // Register all command groups
 registerValidationCommands(program);
 registerConversionCommands(program);
 registerSubnetCommands(program);
 registerOperationCommands(program);
+registerSetCommands(program);
+registerPoolCommands(program);
+registerAclCommand(program);
+registerMapCommand(program);
+registerRandomCommand(program);
+registerShellCommand(program);
+registerCompletionCommand(program);
 
 // Handle unknown commands
 program.on("command:*", (operands) => {
   console.error(`❌ Unknown command: ${operands[0]}`);
   console.error(`Run 'ipnav --help' to see available commands`);
-  process.exit(1);
+  process.exit(EXIT_CODES.usage);
 });
 
 export default program;
@@ -0,0 +1,623 @@
+/**
+ * Version-agnostic IP address model.
+ *
+ * ip-navigator works on 32-bit numbers, which cannot represent IPv6, so every
+ * address is carried here as a BigInt together with its version.
+ */
+
+import { InvalidInputError } from "@/lib/utils/errors.js";
+
+export type IPVersion = 4 | 6;
+
+export interface IPAddress {
+  version: IPVersion;
+  value: bigint;
+}
+
+/**
+ * How an address was written: canonical forms ("dotted", "ipv6") or one of
+ * the legacy IPv4 notations the loose parser accepts
+ */
+export type AddressNotation =
+  | "dotted"
+  | "ipv6"
+  | "ipv4-mapped"
+  | "hex"
+  | "octal"
+  | "integer"
+  | "shorthand";
+
+export interface ParseOptions {
+  /** Accept canonical notation only */
+  strict?: boolean;
+}
+
+export interface ParsedAddress {
+  ip: IPAddress;
+  notation: AddressNotation;
+}
+
+export interface PrefixDetails {
+  version: IPVersion;
+  prefix: number;
+  networkAddress: string;
+  lastAddress: string;
+  firstUsableHost: string;
+  lastUsableHost: string;
+  totalHosts: bigint;
+  usableHosts: bigint;
+}
+
+export interface MaskBits {
+  /** Whether the mask reads as a netmask or as a wildcard (inverse) mask */
+  kind: "netmask" | "wildcard";
+  /** Prefix length, or null for a non-contiguous wildcard mask */
+  prefix: number | null;
+  /** The host bits (the wildcard mask) as an integer */
+  wildcard: bigint;
+}
+
+const IPV4_PATTERN =
+  /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
+
+const HEXTET_PATTERN = /^[0-9a-fA-F]{1,4}$/;
+
+/**
+ * Number of bits in an address of the given version
+ */
+export function bitLength(version: IPVersion): number {
+  return version === 4 ? 32 : 128;
+}
+
+/**
+ * Largest integer value an address of the given version can hold
+ */
+export function maxValue(version: IPVersion): bigint {
+  return (1n << BigInt(bitLength(version))) - 1n;
+}
+
+function parseIPv4Value(address: string): bigint | null {
+  if (!IPV4_PATTERN.test(address)) {
+    return null;
+  }
+
+  return address
+    .split(".")
+    .reduce((acc, octet) => (acc << 8n) | BigInt(Number(octet)), 0n);
+}
+
+function parseHextets(part: string): bigint[] | null {
+  if (part === "") {
+    return [];
+  }
+
+  const groups = part.split(":");
+  const hextets: bigint[] = [];
+
+  for (let i = 0; i < groups.length; i++) {
+    const group = groups[i];
+
+    // An embedded IPv4 address is only allowed as the final group
+    if (i === groups.length - 1 && group.includes(".")) {
+      const ipv4 = parseIPv4Value(group);
+      if (ipv4 === null) {
+        return null;
+      }
+      hextets.push(ipv4 >> 16n, ipv4 & 0xffffn);
+      continue;
+    }
+
+    if (!HEXTET_PATTERN.test(group)) {
+      return null;
+    }
+    hextets.push(BigInt(parseInt(group, 16)));
+  }
+
+  return hextets;
+}
+
+function parseIPv6Value(address: string): bigint | null {
+  const halves = address.split("::");
+  if (halves.length > 2) {
+    return null;
+  }
+
+  let hextets: bigint[];
+
+  if (halves.length === 2) {
+    const head = parseHextets(halves[0]);
+    const tail = parseHextets(halves[1]);
+    if (!head || !tail || head.length + tail.length > 7) {
+      return null;
+    }
+    const fill = new Array<bigint>(8 - head.length - tail.length).fill(0n);
+    hextets = [...head, ...fill, ...tail];
+  } else {
+    const groups = parseHextets(address);
+    if (!groups || groups.length !== 8) {
+      return null;
+    }
+    hextets = groups;
+  }
+
+  // An embedded IPv4 group after the separator still ends up in the last slot
+  if (halves.length === 2 && halves[0].includes(".")) {
+    return null;
+  }
+
+  return hextets.reduce((acc, hextet) => (acc << 16n) | hextet, 0n);
+}
+
+/**
+ * Detects the version of an address string, or null if it is not a valid IP
+ */
+export function getIPVersion(address: string): IPVersion | null {
+  if (parseIPv4Value(address) !== null) {
+    return 4;
+  }
+  if (address.includes(":") && parseIPv6Value(address) !== null) {
+    return 6;
+  }
+  return null;
+}
+
+/**
+ * Checks whether a string is a valid IPv4 or IPv6 address
+ */
+export function isValidIP(address: string): boolean {
+  return getIPVersion(address) !== null;
+}
+
+/**
+ * Parses an IPv4 or IPv6 address string into its BigInt representation
+ */
+export function parseIP(address: string): IPAddress {
+  const ipv4 = parseIPv4Value(address);
+  if (ipv4 !== null) {
+    return { version: 4, value: ipv4 };
+  }
+
+  const ipv6 = address.includes(":") ? parseIPv6Value(address) : null;
+  if (ipv6 !== null) {
+    return { version: 6, value: ipv6 };
+  }
+
+  throw new InvalidInputError(`Invalid IP address: ${address}`);
+}
+
+/**
+ * Parses the IPv4 forms inet_aton(3) accepts: one to four parts, each
+ * decimal, octal (leading 0) or hex (0x), the last part filling the
+ * remaining bytes (10.1 is 10.0.0.1, 3232235777 is 192.168.1.1)
+ */
+function parseLooseIPv4(address: string): ParsedAddress | null {
+  const parts = address.split(".");
+  if (parts.length > 4) {
+    return null;
+  }
+
+  const kinds = new Set<"decimal" | "octal" | "hex">();
+  let value = 0n;
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    let partValue: bigint;
+    if (/^0x[0-9a-f]+$/i.test(part)) {
+      kinds.add("hex");
+      partValue = BigInt(part);
+    } else if (/^0[0-7]+$/.test(part)) {
+      kinds.add("octal");
+      partValue = BigInt(`0o${part.slice(1)}`);
+    } else if (/^(0|[1-9]\d*)$/.test(part)) {
+      kinds.add("decimal");
+      partValue = BigInt(part);
+    } else {
+      return null;
+    }
+
+    // The last part fills every byte that is left
+    const bytes = i === parts.length - 1 ? 4 - i : 1;
+    if (partValue >= 1n << BigInt(bytes * 8)) {
+      return null;
+    }
+    value = (value << BigInt(bytes * 8)) | partValue;
+  }
+
+  let notation: AddressNotation;
+  if (kinds.has("hex")) {
+    notation = "hex";
+  } else if (kinds.has("octal")) {
+    notation = "octal";
+  } else {
+    notation = parts.length === 1 ? "integer" : "shorthand";
+  }
+  return { ip: { version: 4, value }, notation };
+}
+
+/**
+ * Parses an address in any notation. Canonical IPv4 and IPv6 always parse;
+ * unless `strict`, hex (0xC0A80101), octal (0300.0250.1.1), shorthand
+ * (10.1) and integer forms are accepted as IPv4, and IPv4-mapped IPv6
+ * addresses (::ffff:192.168.1.1) are unwrapped to IPv4.
+ */
+export function parseAddress(
+  address: string,
+  options: ParseOptions = {},
+): ParsedAddress {
+  const text = address.trim();
+
+  const ipv4 = parseIPv4Value(text);
+  if (ipv4 !== null) {
+    return { ip: { version: 4, value: ipv4 }, notation: "dotted" };
+  }
+
+  const ipv6 = text.includes(":") ? parseIPv6Value(text) : null;
+  if (ipv6 !== null) {
+    if (!options.strict && ipv6 >> 32n === 0xffffn) {
+      return {
+        ip: { version: 4, value: ipv6 & 0xffffffffn },
+        notation: "ipv4-mapped",
+      };
+    }
+    return { ip: { version: 6, value: ipv6 }, notation: "ipv6" };
+  }
+
+  const loose = parseLooseIPv4(text);
+  if (loose !== null && !options.strict) {
+    return loose;
+  }
+
+  throw new InvalidInputError(
+    `Invalid IP address: ${address}`,
+    ...(loose !== null
+      ? [
+          `Strict parsing rejects the ${loose.notation} IPv4 notation (drop --strict-input to accept it)`,
+        ]
+      : []),
+  );
+}
+
+function toHextets(value: bigint): number[] {
+  const hextets: number[] = [];
+  for (let shift = 112n; shift >= 0n; shift -= 16n) {
+    hextets.push(Number((value >> shift) & 0xffffn));
+  }
+  return hextets;
+}
+
+function formatIPv4(value: bigint): string {
+  return [24n, 16n, 8n, 0n]
+    .map((shift) => ((value >> shift) & 0xffn).toString())
+    .join(".");
+}
+
+/**
+ * Formats an address back to text. IPv6 uses the RFC 5952 canonical form.
+ */
+export function formatIP(ip: IPAddress): string {
+  if (ip.version === 4) {
+    return formatIPv4(ip.value);
+  }
+
+  // IPv4-mapped addresses keep their dotted tail (RFC 5952 section 5)
+  if (ip.value >> 32n === 0xffffn) {
+    return `::ffff:${formatIPv4(ip.value & 0xffffffffn)}`;
+  }
+
+  const hextets = toHextets(ip.value);
+
+  // Find the longest run of zero groups (at least two) to compress
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < hextets.length;) {
+    if (hextets[i] !== 0) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < hextets.length && hextets[j] === 0) {
+      j++;
+    }
+    if (j - i > bestLength) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+
+  const groups = hextets.map((hextet) => hextet.toString(16));
+
+  if (bestStart === -1) {
+    return groups.join(":");
+  }
+
+  const head = groups.slice(0, bestStart).join(":");
+  const tail = groups.slice(bestStart + bestLength).join(":");
+  return `${head}::${tail}`;
+}
+
+/**
+ * Builds an address from its integer value
+ */
+export function fromBigInt(value: bigint, version: IPVersion): IPAddress {
+  if (value < 0n || value > maxValue(version)) {
+    throw new InvalidInputError(
+      `Value ${value} is out of range for IPv${version} (0 to ${maxValue(version)})`,
+    );
+  }
+  return { version, value };
+}
+
+/**
+ * Expands an IPv6 address to eight zero-padded groups
+ */
+export function expandIPv6(address: string): string {
+  const ip = parseIP(address);
+  if (ip.version !== 6) {
+    throw new InvalidInputError(`Not an IPv6 address: ${address}`);
+  }
+  return toHextets(ip.value)
+    .map((hextet) => hextet.toString(16).padStart(4, "0"))
+    .join(":");
+}
+
+/**
+ * Compresses an IPv6 address to its RFC 5952 canonical form
+ */
+export function compressIPv6(address: string): string {
+  const ip = parseIP(address);
+  if (ip.version !== 6) {
+    throw new InvalidInputError(`Not an IPv6 address: ${address}`);
+  }
+  return formatIP(ip);
+}
+
+/**
+ * Binary representation: dotted octets for IPv4, colon-separated 16-bit
+ * groups for IPv6
+ */
+export function toBinaryString(ip: IPAddress): string {
+  const width = bitLength(ip.version);
+  const bits = ip.value.toString(2).padStart(width, "0");
+  const groupSize = ip.version === 4 ? 8 : 16;
+  const separator = ip.version === 4 ? "." : ":";
+  return (bits.match(new RegExp(`.{${groupSize}}`, "g")) ?? []).join(separator);
+}
+
+/**
+ * Parses a binary string (dotted, colon or space separated) into an address.
+ * 32 bits yield IPv4, 128 bits yield IPv6.
+ */
+export function fromBinaryString(binary: string): IPAddress {
+  const bits = binary.replace(/[.:\s]/g, "");
+  if (!/^[01]+$/.test(bits) || (bits.length !== 32 && bits.length !== 128)) {
+    throw new InvalidInputError(
+      `Invalid binary address: ${binary} (expected 32 or 128 bits)`,
+      "Expected format: 11000000.10101000.00000001.00000001 or space-separated (32 bits for IPv4, 128 bits for IPv6)",
+    );
+  }
+  return { version: bits.length === 32 ? 4 : 6, value: BigInt(`0b${bits}`) };
+}
+
+/**
+ * Uppercase hexadecimal representation with a 0x prefix
+ */
+export function toHexString(ip: IPAddress): string {
+  return `0x${ip.value.toString(16).toUpperCase()}`;
+}
+
+/**
+ * Parses a prefix length and checks it against the address family
+ */
+export function parsePrefixLength(prefix: string, version: IPVersion): number {
+  const max = bitLength(version);
+  if (!/^\d+$/.test(prefix.trim())) {
+    throw new InvalidInputError(
+      `Invalid CIDR prefix: ${prefix} (expected 0 to ${max})`,
+    );
+  }
+  const value = parseInt(prefix, 10);
+  if (value < 0 || value > max) {
+    throw new InvalidInputError(
+      `Invalid CIDR prefix: ${prefix} (expected 0 to ${max})`,
+    );
+  }
+  return value;
+}
+
+/**
+ * Netmask for a prefix length as an integer
+ */
+export function prefixToMask(prefix: number, version: IPVersion): bigint {
+  const width = BigInt(bitLength(version));
+  return (maxValue(version) << (width - BigInt(prefix))) & maxValue(version);
+}
+
+/**
+ * Wildcard (inverse) mask for a prefix length as an integer: the host bits
+ * set, as Cisco ACLs and OSPF network statements expect
+ */
+export function prefixToWildcard(prefix: number, version: IPVersion): bigint {
+  return prefixToMask(prefix, version) ^ maxValue(version);
+}
+
+/**
+ * Prefix length of a contiguous netmask, or null if the mask is not contiguous
+ */
+export function maskToPrefix(mask: IPAddress): number | null {
+  const width = bitLength(mask.version);
+  for (let prefix = 0; prefix <= width; prefix++) {
+    if (prefixToMask(prefix, mask.version) === mask.value) {
+      return prefix;
+    }
+  }
+  return null;
+}
+
+/**
+ * Prefix length of a contiguous wildcard mask, or null if it is not
+ * contiguous
+ */
+export function wildcardToPrefix(wildcard: IPAddress): number | null {
+  return maskToPrefix({
+    version: wildcard.version,
+    value: wildcard.value ^ maxValue(wildcard.version),
+  });
+}
+
+/**
+ * Reads a mask as a netmask or a wildcard mask. A contiguous netmask wins,
+ * so all zeros and all ones read as /0 and /32 (/128); any other bit
+ * pattern is a wildcard mask, which Cisco ACLs allow to be non-contiguous.
+ */
+export function parseMask(mask: IPAddress): MaskBits {
+  const prefix = maskToPrefix(mask);
+  if (prefix !== null) {
+    return {
+      kind: "netmask",
+      prefix,
+      wildcard: prefixToWildcard(prefix, mask.version),
+    };
+  }
+  return {
+    kind: "wildcard",
+    prefix: wildcardToPrefix(mask),
+    wildcard: mask.value,
+  };
+}
+
+/**
+ * Number of addresses a wildcard mask matches: one per combination of its
+ * set bits
+ */
+export function wildcardSize(wildcard: bigint): bigint {
+  let bits = 0n;
+  for (let value = wildcard; value > 0n; value >>= 1n) {
+    bits += value & 1n;
+  }
+  return 1n << bits;
+}
+
+/**
+ * Checks whether ip matches network under a wildcard mask: every bit the
+ * wildcard leaves clear must be equal
+ */
+export function matchesWildcard(
+  ip: IPAddress,
+  network: IPAddress,
+  wildcard: bigint,
+): boolean {
+  const care = wildcard ^ maxValue(ip.version);
+  return (
+    ip.version === network.version &&
+    (ip.value & care) === (network.value & care)
+  );
+}
+
+/**
+ * First address of the prefix containing ip
+ */
+export function networkOf(ip: IPAddress, prefix: number): IPAddress {
+  return {
+    version: ip.version,
+    value: ip.value & prefixToMask(prefix, ip.version),
+  };
+}
+
+/**
+ * Last address of the prefix containing ip (the broadcast address for IPv4)
+ */
+export function lastOf(ip: IPAddress, prefix: number): IPAddress {
+  const hostMask = maxValue(ip.version) ^ prefixToMask(prefix, ip.version);
+  return { version: ip.version, value: ip.value | hostMask };
+}
+
+/**
+ * Number of addresses in a prefix of the given length
+ */
+export function prefixSize(prefix: number, version: IPVersion): bigint {
+  return 1n << BigInt(bitLength(version) - prefix);
+}
+
+/**
+ * Describes the prefix containing an address. IPv6 has no broadcast address,
+ * so every address in an IPv6 prefix counts as usable.
+ */
+export function getPrefixDetails(
+  address: string,
+  prefix: number,
+): PrefixDetails {
+  const ip = parseIP(address);
+  const network = networkOf(ip, prefix);
+  const last = lastOf(ip, prefix);
+  const total = prefixSize(prefix, ip.version);
+
+  // IPv4 /31 and /32 have no network/broadcast reservation (RFC 3021)
+  const reserveEnds = ip.version === 4 && prefix < 31;
+
+  return {
+    version: ip.version,
+    prefix,
+    networkAddress: formatIP(network),
+    lastAddress: formatIP(last),
+    firstUsableHost: formatIP(
+      reserveEnds ? { ...network, value: network.value + 1n } : network,
+    ),
+    lastUsableHost: formatIP(
+      reserveEnds ? { ...last, value: last.value - 1n } : last,
+    ),
+    totalHosts: total,
+    usableHosts: reserveEnds ? total - 2n : total,
+  };
+}
+
+/**
+ * Checks whether ip falls inside network/prefix
+ */
+export function isInPrefix(
+  ip: IPAddress,
+  network: IPAddress,
+  prefix: number,
+): boolean {
+  if (ip.version !== network.version) {
+    return false;
+  }
+  const mask = prefixToMask(prefix, ip.version);
+  return (ip.value & mask) === (network.value & mask);
+}
+
+/**
+ * Address immediately after ip
+ */
+export function nextIP(ip: IPAddress): IPAddress {
+  if (ip.value === maxValue(ip.version)) {
+    throw new InvalidInputError(
+      `${formatIP(ip)} is the last IPv${ip.version} address`,
+    );
+  }
+  return { version: ip.version, value: ip.value + 1n };
+}
+
+/**
+ * Address immediately before ip
+ */
+export function previousIP(ip: IPAddress): IPAddress {
+  if (ip.value === 0n) {
+    throw new InvalidInputError(
+      `${formatIP(ip)} is the first IPv${ip.version} address`,
+    );
+  }
+  return { version: ip.version, value: ip.value - 1n };
+}
+
+/**
+ * Numeric comparison returning -1, 0 or 1. Addresses of different versions
+ * cannot be compared.
+ */
+export function compareIP(a: IPAddress, b: IPAddress): number {
+  if (a.version !== b.version) {
+    throw new InvalidInputError(
+      "Cannot compare an IPv4 address with an IPv6 address",
+    );
+  }
+  return a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+}
@@ -0,0 +1,166 @@
+/**
+ * Line-by-line batch mode for single-address commands.
+ *
+ * A command opts in by passing "-" as its address or --input <file>. Every
+ * non-blank line is evaluated on its own; failures are reported against their
+ * line number and never abort the run.
+ */
+
+import { EXIT_CODES, UsageError } from "@/lib/utils/errors.js";
+import { readLines } from "@/lib/utils/input.js";
+import {
+  OutputRecord,
+  errorMessage,
+  fail,
+  getOutputFormat,
+  renderCSVRow,
+  renderJSONLine,
+  renderStructured,
+  writeLine,
+} from "@/lib/utils/output.js";
+
+export interface BatchHandler<T extends object> {
+  /** Computes the result for one entry; throws when the entry is invalid */
+  evaluate: (entry: string) => T;
+  /** The value --plain would print for this result */
+  plain: (result: T) => string;
+  /** Marks results that should make the run exit non-zero (e.g. "invalid") */
+  failed?: (result: T) => boolean;
+}
+
+/**
+ * Returns the batch source ("-" or a file path) if batch mode was requested
+ */
+export function batchSource(
+  address: string | undefined,
+  options: { input?: string },
+): string | null {
+  if (options.input) {
+    return options.input;
+  }
+  return address === "-" ? "-" : null;
+}
+
+/**
+ * Reports a missing positional argument for commands whose argument became
+ * optional to make room for --input
+ */
+export function missingArgument(name: string): never {
+  fail(
+    new UsageError(
+      `Missing required argument '${name}'`,
+      "Pass a value, '-' to read stdin, or --input <file>",
+    ),
+  );
+}
+
+/**
+ * Streams a file (or stdin) through a handler. The exit status is the
+ * invalid-input code when any line errored, the predicate-false code when
+ * any line was flagged, and success otherwise. With `strict`, nothing is
+ * printed and only the exit status reports the outcome.
+ */
+export async function runBatch<T extends object>(
+  source: string,
+  handler: BatchHandler<T>,
+  options: { plain?: boolean; strict?: boolean },
+): Promise<void> {
+  const format = getOutputFormat();
+  const tableRows: OutputRecord[] = [];
+  let pendingCsv: OutputRecord[] = [];
+  let csvColumns: string[] | null = null;
+  let lineNumber = 0;
+  let succeeded = 0;
+  let errored = 0;
+  let flagged = 0;
+
+  const emit = async (row: OutputRecord, text: string) => {
+    if (options.strict) {
+      return;
+    }
+    switch (format) {
+      case "json":
+        // JSON Lines: one object per input line
+        await writeLine(renderJSONLine(row));
+        break;
+      case "yaml":
+        await writeLine(renderStructured([row], "yaml"));
+        break;
+      case "csv":
+        // Columns come from the first successful result; earlier error rows
+        // wait until the header is known
+        if (csvColumns === null && !("error" in row)) {
+          csvColumns = [...Object.keys(row), "error"];
+          await writeLine(csvColumns.join(","));
+        }
+        if (csvColumns === null) {
+          pendingCsv.push(row);
+          break;
+        }
+        for (const pending of [...pendingCsv, row]) {
+          await writeLine(renderCSVRow(pending, csvColumns));
+        }
+        pendingCsv = [];
+        break;
+      case "table":
+        // Column widths need every row, so the table is printed at the end
+        tableRows.push(row);
+        break;
+      default:
+        await writeLine(text);
+    }
+  };
+
+  for await (const rawLine of readLines(source)) {
+    lineNumber++;
+    const entry = rawLine.trim();
+    if (entry === "" || entry.startsWith("#")) {
+      continue;
+    }
+
+    try {
+      const result = handler.evaluate(entry);
+      const isFlagged = handler.failed?.(result) ?? false;
+      succeeded++;
+      if (isFlagged) {
+        flagged++;
+      }
+
+      const value = handler.plain(result);
+      await emit(
+        { line: lineNumber, input: entry, ...result },
+        options.plain
+          ? `${lineNumber}\t${entry}\t${value}`
+          : `${isFlagged ? "❌" : "✅"} [${lineNumber}] ${entry} → ${value}`,
+      );
+    } catch (error) {
+      errored++;
+      await emit(
+        { line: lineNumber, input: entry, error: errorMessage(error) },
+        options.plain
+          ? `${lineNumber}\t${entry}\terror: ${errorMessage(error)}`
+          : `❌ [${lineNumber}] ${entry}: ${errorMessage(error)}`,
+      );
+    }
+  }
+
+  if (format === "csv" && pendingCsv.length > 0) {
+    await writeLine(renderStructured(pendingCsv, "csv"));
+  }
+  if (format === "table" && tableRows.length > 0) {
+    await writeLine(renderStructured(tableRows, "table"));
+  }
+
+  if (format === "text" && !options.plain && !options.strict) {
+    await writeLine(
+      `\n📊 Summary: ${succeeded} processed, ${errored} errors (${succeeded + errored} lines)`,
+    );
+  }
+
+  process.exitCode =
+    errored > 0
+      ? EXIT_CODES.invalidInput
+      : flagged > 0
+        ? EXIT_CODES.predicateFalse
+        : EXIT_CODES.success;
+}
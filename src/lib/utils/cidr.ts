@@ -0,0 +1,673 @@
+/**
+ * Prefix (CIDR block) math on top of the BigInt address model.
+ */
+
+import {
+  IPAddress,
+  IPVersion,
+  ParseOptions,
+  bitLength,
+  formatIP,
+  getIPVersion,
+  getPrefixDetails,
+  lastOf,
+  networkOf,
+  parseAddress,
+  parseIP,
+  parseMask,
+  parsePrefixLength,
+  prefixSize,
+  prefixToWildcard,
+} from "@/lib/utils/address.js";
+
+import { InvalidInputError } from "@/lib/utils/errors.js";
+
+export interface CIDRBlock {
+  network: IPAddress;
+  prefix: number;
+}
+
+/**
+ * A block flattened for output
+ */
+export interface BlockReport {
+  cidr: string;
+  networkAddress: string;
+  lastAddress: string;
+  firstUsableHost: string;
+  lastUsableHost: string;
+  totalHosts: bigint;
+  usableHosts: bigint;
+}
+
+/**
+ * An address with the mask it was given, in any accepted notation
+ */
+export interface SubnetSpec {
+  /** The address as given, host bits included */
+  address: IPAddress;
+  /** The mask as given (prefix length, netmask or wildcard mask) */
+  mask: string;
+  /** Null for a non-contiguous wildcard mask */
+  prefix: number | null;
+  /** Bits that may differ from the address */
+  wildcard: bigint;
+}
+
+export interface VLSMAllocation {
+  requested: number;
+  block: CIDRBlock;
+}
+
+export interface VLSMPlan {
+  allocations: VLSMAllocation[];
+  free: CIDRBlock[];
+}
+
+/**
+ * Parses the address part of a prefix in any notation parseAddress accepts
+ * (unless `strict`). IPv4-mapped IPv6 addresses stay IPv6 here, since
+ * the prefix length that goes with them counts IPv6 bits. Decimal
+ * shorthand is a truncated network rather than inet_aton shorthand: the
+ * missing trailing octets are zero, so 172.16/12 is 172.16.0.0/12.
+ */
+export function parsePrefixAddress(
+  text: string,
+  options: ParseOptions = {},
+): IPAddress {
+  if (text.includes(":")) {
+    return parseIP(text);
+  }
+
+  const octets = text.trim().split(".");
+  if (
+    !options.strict &&
+    octets.length < 4 &&
+    octets.every((octet) => /^(0|[1-9]\d{0,2})$/.test(octet) && +octet <= 255)
+  ) {
+    const value = [0, 1, 2, 3].reduce(
+      (total, i) => (total << 8n) | BigInt(octets[i] ?? 0),
+      0n,
+    );
+    return { version: 4, value };
+  }
+  return parseAddress(text, options).ip;
+}
+
+/**
+ * Parses an address and its mask from any of the notations subnet commands
+ * accept: "10.1.2.3/24", "10.1.2.3/255.255.255.0", "10.1.2.3 255.255.255.0",
+ * or the address alone with the mask passed separately. The mask may be a
+ * prefix length (with or without a leading slash), a netmask or a wildcard
+ * mask, which is allowed to be non-contiguous.
+ */
+export function parseSubnetSpec(
+  address: string,
+  mask?: string,
+  options: ParseOptions = {},
+): SubnetSpec {
+  const [addressText, inlineMask, ...rest] = address
+    .trim()
+    .split(/\s*\/\s*|\s+/);
+  if (rest.length > 0) {
+    throw new InvalidInputError(
+      `Invalid subnet: ${address}`,
+      "Expected address/prefix, address/mask or 'address mask'",
+    );
+  }
+  if (inlineMask !== undefined && mask !== undefined) {
+    throw new InvalidInputError(
+      `Pass either ${address} or a separate mask, not both`,
+    );
+  }
+
+  const ip = parsePrefixAddress(addressText, options);
+  const maskText = (inlineMask ?? mask)?.trim().replace(/^\//, "");
+  if (maskText === undefined || maskText === "") {
+    throw new InvalidInputError(
+      ip.version === 6
+        ? "Please provide either a prefix length or an IPv6 netmask"
+        : "Please provide either a subnet mask or a prefix length",
+      `Use ${addressText}/<prefix>, ${addressText}/<mask>, '${addressText} <mask>' or --cidr <prefix>`,
+    );
+  }
+
+  const maskVersion = getIPVersion(maskText);
+  if (maskVersion === null) {
+    const prefix = parsePrefixLength(maskText, ip.version);
+    return {
+      address: ip,
+      mask: maskText,
+      prefix,
+      wildcard: prefixToWildcard(prefix, ip.version),
+    };
+  }
+  if (maskVersion !== ip.version) {
+    throw new InvalidInputError(
+      `Invalid subnet mask: ${maskText}`,
+      `Expected an IPv${ip.version} mask or a prefix length`,
+    );
+  }
+
+  const bits = parseMask(parseIP(maskText));
+  return {
+    address: ip,
+    mask: maskText,
+    prefix: bits.prefix,
+    wildcard: bits.wildcard,
+  };
+}
+
+/**
+ * Prefix length of a subnet, rejecting non-contiguous wildcard masks
+ */
+export function requirePrefix(spec: SubnetSpec): number {
+  if (spec.prefix === null) {
+    throw new InvalidInputError(
+      `Invalid subnet mask: ${spec.mask}`,
+      "Neither a contiguous netmask nor a contiguous wildcard mask (non-contiguous wildcards only work with in-subnet)",
+    );
+  }
+  return spec.prefix;
+}
+
+/**
+ * Parses "address/prefix" into a block; the prefix may also be written as a
+ * netmask or a contiguous wildcard mask. Host bits are cleared, so
+ * 10.1.2.3/8 becomes 10.0.0.0/8.
+ */
+export function parseCIDR(cidr: string, options: ParseOptions = {}): CIDRBlock {
+  if (cidr.trim().split("/").length !== 2) {
+    throw new InvalidInputError(`Invalid CIDR notation: ${cidr}`);
+  }
+
+  const spec = parseSubnetSpec(cidr, undefined, options);
+  const prefix = requirePrefix(spec);
+  return { network: networkOf(spec.address, prefix), prefix };
+}
+
+/**
+ * Formats a block as "network/prefix"
+ */
+export function formatCIDR(block: CIDRBlock): string {
+  return `${formatIP(block.network)}/${block.prefix}`;
+}
+
+/**
+ * First address of a block as an integer
+ */
+export function blockStart(block: CIDRBlock): bigint {
+  return block.network.value;
+}
+
+/**
+ * Last address of a block as an integer
+ */
+export function blockEnd(block: CIDRBlock): bigint {
+  return lastOf(block.network, block.prefix).value;
+}
+
+/**
+ * Number of addresses in a block
+ */
+export function blockSize(block: CIDRBlock): bigint {
+  return prefixSize(block.prefix, block.network.version);
+}
+
+/**
+ * Flattens a block into the row shape used by list output (split, vlsm,
+ * aggregate and set operations)
+ */
+export function describeBlock(block: CIDRBlock): BlockReport {
+  const details = getPrefixDetails(formatIP(block.network), block.prefix);
+  return {
+    cidr: formatCIDR(block),
+    networkAddress: details.networkAddress,
+    lastAddress: details.lastAddress,
+    firstUsableHost: details.firstUsableHost,
+    lastUsableHost: details.lastUsableHost,
+    totalHosts: details.totalHosts,
+    usableHosts: details.usableHosts,
+  };
+}
+
+/**
+ * Lazily yields every child of a block at a longer prefix length. The first
+ * `offset` children are skipped arithmetically, and at most `limit` children
+ * are produced when a limit is given.
+ */
+export function* splitBlock(
+  block: CIDRBlock,
+  newPrefix: number,
+  offset = 0n,
+  limit?: bigint,
+): Generator<CIDRBlock> {
+  const { version } = block.network;
+  if (newPrefix < block.prefix || newPrefix > bitLength(version)) {
+    throw new InvalidInputError(
+      `New prefix /${newPrefix} must be between /${block.prefix} and /${bitLength(version)}`,
+    );
+  }
+
+  const step = prefixSize(newPrefix, version);
+  const first = blockStart(block) + offset * step;
+  const last =
+    limit !== undefined && first + (limit - 1n) * step < blockEnd(block)
+      ? first + (limit - 1n) * step
+      : blockEnd(block);
+  for (let value = first; value <= last; value += step) {
+    yield { network: { version, value }, prefix: newPrefix };
+  }
+}
+
+/**
+ * Number of children produced by splitting a block at a longer prefix
+ */
+export function splitCount(block: CIDRBlock, newPrefix: number): bigint {
+  return 1n << BigInt(newPrefix - block.prefix);
+}
+
+/**
+ * Decomposes the inclusive integer range [start, end] into the minimal list
+ * of aligned blocks
+ */
+export function rangeToBlocks(
+  start: bigint,
+  end: bigint,
+  version: IPVersion,
+): CIDRBlock[] {
+  const width = bitLength(version);
+  const blocks: CIDRBlock[] = [];
+  let current = start;
+
+  while (current <= end) {
+    // Grow the block while it stays aligned and inside the range
+    let hostBits = 0;
+    while (hostBits < width) {
+      const size = 1n << BigInt(hostBits + 1);
+      if (current % size !== 0n || current + size - 1n > end) {
+        break;
+      }
+      hostBits++;
+    }
+
+    blocks.push({
+      network: { version, value: current },
+      prefix: width - hostBits,
+    });
+    current += 1n << BigInt(hostBits);
+  }
+
+  return blocks;
+}
+
+/**
+ * Usable host count for a prefix: IPv4 reserves the network and broadcast
+ * addresses except on /31 and /32 (RFC 3021); IPv6 reserves nothing
+ */
+export function usableHostCount(prefix: number, version: IPVersion): bigint {
+  const size = prefixSize(prefix, version);
+  return version === 4 && prefix < 31 ? size - 2n : size;
+}
+
+/**
+ * Longest prefix (smallest block) that still provides the requested number
+ * of usable hosts
+ */
+export function prefixForHosts(hosts: number, version: IPVersion): number {
+  for (let prefix = bitLength(version); prefix >= 0; prefix--) {
+    if (usableHostCount(prefix, version) >= BigInt(hosts)) {
+      return prefix;
+    }
+  }
+  throw new InvalidInputError(
+    `No IPv${version} prefix can hold ${hosts} hosts`,
+  );
+}
+
+/**
+ * Allocates right-sized subnets largest-first from the start of a block.
+ * Descending power-of-two sizes keep every allocation aligned, so the plan
+ * never overlaps and whatever remains is reported as free blocks.
+ */
+export function planVLSM(block: CIDRBlock, hosts: number[]): VLSMPlan {
+  const { version } = block.network;
+  const end = blockEnd(block);
+  let cursor = blockStart(block);
+
+  const requests = hosts
+    .map((requested) => ({
+      requested,
+      prefix: prefixForHosts(requested, version),
+    }))
+    .sort((a, b) => a.prefix - b.prefix);
+
+  const allocations = requests.map(({ requested, prefix }) => {
+    if (
+      prefix < block.prefix ||
+      cursor + prefixSize(prefix, version) - 1n > end
+    ) {
+      throw new InvalidInputError(
+        `Not enough space in ${formatCIDR(block)} for a subnet of ${requested} hosts`,
+      );
+    }
+    const allocation = {
+      requested,
+      block: { network: { version, value: cursor }, prefix },
+    };
+    cursor += prefixSize(prefix, version);
+    return allocation;
+  });
+
+  return {
+    allocations,
+    free: cursor <= end ? rangeToBlocks(cursor, end, version) : [],
+  };
+}
+
+export interface AddressRange {
+  version: IPVersion;
+  start: bigint;
+  end: bigint;
+}
+
+/**
+ * Parses a CIDR block ("10.0.0.0/24"), an inclusive range
+ * ("10.0.0.5-10.0.0.20") or a single address into an integer range
+ */
+export function parseAddressSpec(
+  spec: string,
+  options: ParseOptions = {},
+): AddressRange {
+  const value = spec.trim();
+
+  if (value.includes("/")) {
+    const block = parseCIDR(value, options);
+    return {
+      version: block.network.version,
+      start: blockStart(block),
+      end: blockEnd(block),
+    };
+  }
+
+  if (value.includes("-")) {
+    const [first, last, ...rest] = value.split("-").map((part) => part.trim());
+    if (rest.length > 0) {
+      throw new InvalidInputError(`Invalid address range: ${spec}`);
+    }
+    const start = parseAddress(first, options).ip;
+    const end = parseAddress(last, options).ip;
+    if (start.version !== end.version) {
+      throw new InvalidInputError(
+        `Range mixes IPv4 and IPv6 addresses: ${spec}`,
+      );
+    }
+    if (start.value > end.value) {
+      throw new InvalidInputError(`Range start is after range end: ${spec}`);
+    }
+    return { version: start.version, start: start.value, end: end.value };
+  }
+
+  const { ip } = parseAddress(value, options);
+  return { version: ip.version, start: ip.value, end: ip.value };
+}
+
+/**
+ * Number of addresses in a range
+ */
+export function rangeSize(range: AddressRange): bigint {
+  return range.end - range.start + 1n;
+}
+
+/**
+ * "1 address" / "5 addresses"
+ */
+export function addressCount(count: bigint | number): string {
+  return `${count.toLocaleString()} ${BigInt(count) === 1n ? "address" : "addresses"}`;
+}
+
+/**
+ * Lazily yields the addresses of a range. The first `offset` addresses are
+ * skipped arithmetically rather than generated, and at most `limit`
+ * addresses are produced when a limit is given.
+ */
+export function* rangeAddresses(
+  range: AddressRange,
+  offset = 0n,
+  limit?: bigint,
+): Generator<IPAddress> {
+  const first = range.start + offset;
+  const last =
+    limit !== undefined && first + limit - 1n < range.end
+      ? first + limit - 1n
+      : range.end;
+  for (let value = first; value <= last; value++) {
+    yield { version: range.version, value };
+  }
+}
+
+export type RangeRelation =
+  "equal" | "contains" | "within" | "overlaps" | "disjoint";
+
+/**
+ * Addresses shared by two ranges, or null when they do not overlap (ranges
+ * of different IP versions never do)
+ */
+export function intersectRanges(
+  a: AddressRange,
+  b: AddressRange,
+): AddressRange | null {
+  if (a.version !== b.version) {
+    return null;
+  }
+  const start = a.start > b.start ? a.start : b.start;
+  const end = a.end < b.end ? a.end : b.end;
+  return start <= end ? { version: a.version, start, end } : null;
+}
+
+/**
+ * How range a relates to range b: identical, a contains b, a lies within b,
+ * a partial overlap, or no shared addresses
+ */
+export function rangeRelation(a: AddressRange, b: AddressRange): RangeRelation {
+  if (intersectRanges(a, b) === null) {
+    return "disjoint";
+  }
+  if (a.start === b.start && a.end === b.end) {
+    return "equal";
+  }
+  if (a.start <= b.start && a.end >= b.end) {
+    return "contains";
+  }
+  if (b.start <= a.start && b.end >= a.end) {
+    return "within";
+  }
+  return "overlaps";
+}
+
+/**
+ * Index pairs [i, j] (i < j) of every two ranges that share addresses. A
+ * sweep over the ranges sorted by start only compares ranges that are still
+ * open, so disjoint inputs cost O(n log n).
+ */
+export function overlappingPairs(
+  ranges: AddressRange[],
+): Array<[number, number]> {
+  const order = ranges
+    .map((_, idx) => idx)
+    .sort((a, b) => {
+      const x = ranges[a];
+      const y = ranges[b];
+      if (x.version !== y.version) {
+        return x.version - y.version;
+      }
+      return x.start < y.start ? -1 : x.start > y.start ? 1 : a - b;
+    });
+
+  const pairs: Array<[number, number]> = [];
+  let open: number[] = [];
+  for (const idx of order) {
+    const current = ranges[idx];
+    open = open.filter(
+      (other) =>
+        ranges[other].version === current.version &&
+        ranges[other].end >= current.start,
+    );
+    open.forEach((other) =>
+      pairs.push(other < idx ? [other, idx] : [idx, other]),
+    );
+    open.push(idx);
+  }
+
+  return pairs.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+}
+
+/**
+ * Sorts ranges (IPv4 before IPv6) and merges the ones that overlap or touch
+ */
+export function mergeRanges(ranges: AddressRange[]): AddressRange[] {
+  const sorted = [...ranges].sort((a, b) =>
+    a.version !== b.version
+      ? a.version - b.version
+      : a.start < b.start
+        ? -1
+        : a.start > b.start
+          ? 1
+          : 0,
+  );
+
+  const merged: AddressRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (
+      last &&
+      last.version === range.version &&
+      range.start <= last.end + 1n
+    ) {
+      if (range.end > last.end) {
+        last.end = range.end;
+      }
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Addresses present in both lists, as merged ranges
+ */
+export function intersectRangeLists(
+  a: AddressRange[],
+  b: AddressRange[],
+): AddressRange[] {
+  const left = mergeRanges(a);
+  const right = mergeRanges(b);
+  const result: AddressRange[] = [];
+
+  // Both lists are sorted and disjoint, so a two-pointer walk suffices
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    const shared = intersectRanges(left[i], right[j]);
+    if (shared !== null) {
+      result.push(shared);
+    }
+
+    const x = left[i];
+    const y = right[j];
+    if (x.version !== y.version ? x.version < y.version : x.end < y.end) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Addresses in the first list that are not in the second, as merged ranges
+ */
+export function subtractRangeLists(
+  a: AddressRange[],
+  b: AddressRange[],
+): AddressRange[] {
+  const removed = mergeRanges(b);
+  const result: AddressRange[] = [];
+
+  for (const range of mergeRanges(a)) {
+    let cursor = range.start;
+    for (const hole of removed) {
+      if (
+        hole.version !== range.version ||
+        hole.end < cursor ||
+        hole.start > range.end
+      ) {
+        continue;
+      }
+      if (hole.start > cursor) {
+        result.push({
+          version: range.version,
+          start: cursor,
+          end: hole.start - 1n,
+        });
+      }
+      cursor = hole.end + 1n;
+      if (cursor > range.end) {
+        break;
+      }
+    }
+    if (cursor <= range.end) {
+      result.push({ version: range.version, start: cursor, end: range.end });
+    }
+  }
+  return result;
+}
+
+/**
+ * Collapses ranges into the minimal set of prefixes covering exactly the
+ * same addresses
+ */
+export function aggregateRanges(ranges: AddressRange[]): CIDRBlock[] {
+  return mergeRanges(ranges).flatMap((range) =>
+    rangeToBlocks(range.start, range.end, range.version),
+  );
+}
+
+/**
+ * Smallest single prefix containing every range. All ranges must share an IP
+ * version.
+ */
+export function supernetOf(ranges: AddressRange[]): CIDRBlock {
+  if (ranges.length === 0) {
+    throw new InvalidInputError("No addresses to summarize");
+  }
+
+  const { version } = ranges[0];
+  if (ranges.some((range) => range.version !== version)) {
+    throw new InvalidInputError(
+      "Cannot build a supernet from mixed IPv4 and IPv6 input",
+    );
+  }
+
+  const low = ranges.reduce(
+    (min, r) => (r.start < min ? r.start : min),
+    ranges[0].start,
+  );
+  const high = ranges.reduce(
+    (max, r) => (r.end > max ? r.end : max),
+    ranges[0].end,
+  );
+
+  // Longest prefix under which the lowest and highest address share a network
+  let prefix = bitLength(version);
+  while (
+    prefix > 0 &&
+    networkOf({ version, value: low }, prefix).value !==
+      networkOf({ version, value: high }, prefix).value
+  ) {
+    prefix--;
+  }
+
+  return { network: networkOf({ version, value: low }, prefix), prefix };
+}
@@ -0,0 +1,50 @@
+/**
+ * Error hierarchy and exit statuses.
+ *
+ * Everything that goes wrong because of the caller's input is an
+ * InvalidInputError, a malformed command line is a UsageError, and any other
+ * error is a bug. The CLI exits with the code carried by the error.
+ */
+
+/**
+ * Exit statuses of the CLI. Predicate commands (in-subnet, validate-*,
+ * classify --is) answer "no" with predicateFalse, like grep and test do.
+ */
+export const EXIT_CODES = {
+  success: 0,
+  predicateFalse: 1,
+  usage: 2,
+  invalidInput: 3,
+  internal: 4,
+} as const;
+
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
+
+export class IPNavError extends Error {
+  /** Extra lines shown under the message (expected formats, ranges, ...) */
+  readonly hints: string[];
+
+  /** Exit status the CLI uses when this error ends a command */
+  readonly exitCode: ExitCode = EXIT_CODES.internal;
+
+  constructor(message: string, ...hints: string[]) {
+    super(message);
+    this.name = new.target.name;
+    this.hints = hints;
+  }
+}
+
+/**
+ * An address, mask, prefix, range or option value that cannot be used
+ */
+export class InvalidInputError extends IPNavError {
+  override readonly exitCode: ExitCode = EXIT_CODES.invalidInput;
+}
+
+/**
+ * A command line that cannot be run as given: missing arguments, unknown
+ * commands or options, conflicting flags
+ */
+export class UsageError extends IPNavError {
+  override readonly exitCode: ExitCode = EXIT_CODES.usage;
+}
@@ -0,0 +1,109 @@
+/**
+ * Input helpers for commands that accept lists of entries
+ */
+
+import { createReadStream } from "fs";
+import { createInterface } from "readline";
+
+import { InvalidInputError, UsageError } from "@/lib/utils/errors.js";
+
+import { fail } from "@/lib/utils/output.js";
+
+let strictInput = false;
+
+/**
+ * Sets whether addresses must be in canonical notation (--strict-input)
+ */
+export function setStrictInput(strict: boolean): void {
+  strictInput = strict;
+}
+
+/**
+ * Parse options for address arguments, from the global --strict-input flag
+ */
+export function parseOptions(): { strict: boolean } {
+  return { strict: strictInput };
+}
+
+/**
+ * Parses a --limit/--offset style value as a BigInt so paging works across
+ * the whole IPv6 space
+ */
+export function parseCountOption(
+  value: string,
+  name: string,
+  min: bigint,
+): bigint {
+  if (!/^\d+$/.test(value) || BigInt(value) < min) {
+    fail(new UsageError(`${name} must be an integer of at least ${min}`));
+  }
+  return BigInt(value);
+}
+
+/**
+ * Lazily yields the lines of a file, or of stdin when the source is "-". A
+ * file that cannot be opened or read is an input error.
+ */
+export async function* readLines(source: string): AsyncGenerator<string> {
+  const input = source === "-" ? process.stdin : createReadStream(source);
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  try {
+    for await (const line of lines) {
+      yield line;
+    }
+  } catch (error) {
+    throw new InvalidInputError(
+      `Cannot read input file: ${source} (${(error as NodeJS.ErrnoException).code ?? "unreadable"})`,
+    );
+  }
+}
+
+/**
+ * Splits a line on whitespace and commas, dropping # comments
+ */
+function splitEntries(line: string): string[] {
+  return line
+    .replace(/#.*$/, "")
+    .split(/[\s,]+/)
+    .filter((entry) => entry !== "");
+}
+
+/**
+ * Collects list entries from command arguments, or from stdin when no
+ * arguments (or a single "-") are given. Entries from an --input file are
+ * read in addition to the arguments. Entries may be separated by whitespace
+ * or commas, and # starts a comment.
+ */
+export async function collectEntries(
+  args: string[],
+  input?: string,
+): Promise<string[]> {
+  const readsStdin =
+    args.length === 0 || (args.length === 1 && args[0] === "-");
+  if (input === undefined && !readsStdin) {
+    return args;
+  }
+
+  const entries = readsStdin ? [] : [...args];
+  for await (const line of readLines(input ?? "-")) {
+    entries.push(...splitEntries(line));
+  }
+  return entries;
+}
+
+/**
+ * Expands one list argument: "-" reads stdin, "@path" reads a file, and
+ * anything else is taken as comma-separated entries
+ */
+export async function readListArgument(arg: string): Promise<string[]> {
+  if (arg !== "-" && !arg.startsWith("@")) {
+    return arg.split(",").filter((entry) => entry.trim() !== "");
+  }
+
+  const entries: string[] = [];
+  for await (const line of readLines(arg === "-" ? "-" : arg.slice(1))) {
+    entries.push(...splitEntries(line));
+  }
+  return entries;
+}
@@ -0,0 +1,263 @@
+/**
+ * Reader for MaxMind DB files (GeoLite2 / GeoIP2 City, Country and ASN).
+ *
+ * Implements the MaxMind DB format 2.0 specification
+ * (https://maxmind.github.io/MaxMind-DB/): a binary search tree over the
+ * address bits whose leaves point into a typed data section. Files are read
+ * from disk once and cached, so batch lookups pay the load cost only once.
+ */
+
+import { readFileSync } from "fs";
+
+import { IPAddress, bitLength } from "@/lib/utils/address.js";
+
+import { InvalidInputError } from "@/lib/utils/errors.js";
+
+export type MMDBValue =
+  | string
+  | number
+  | bigint
+  | boolean
+  | Buffer
+  | MMDBValue[]
+  | { [key: string]: MMDBValue };
+
+export interface MMDBMetadata {
+  databaseType: string;
+  ipVersion: number;
+  nodeCount: number;
+  recordSize: number;
+  buildEpoch: number;
+}
+
+export interface MMDBReader {
+  path: string;
+  metadata: MMDBMetadata;
+  /** The record for an address, or null when the database has none */
+  get: (ip: IPAddress) => MMDBValue | null;
+}
+
+const METADATA_MARKER = Buffer.from("\xAB\xCD\xEFMaxMind.com", "latin1");
+
+/** The metadata section sits in the last 128 KiB of the file */
+const METADATA_MAX_SIZE = 128 * 1024;
+
+/** Zero bytes between the search tree and the data section */
+const DATA_SECTION_SEPARATOR = 16;
+
+const readers = new Map<string, MMDBReader>();
+
+/**
+ * Decodes values from a data section. Pointers are offsets from `base`.
+ */
+class Decoder {
+  constructor(
+    private readonly buffer: Buffer,
+    private readonly base: number,
+  ) {}
+
+  /** Decodes the value at an offset, returning it and the next offset */
+  decode(offset: number): [MMDBValue, number] {
+    const control = this.buffer[offset++];
+    let type = control >> 5;
+
+    if (type === 1) {
+      return this.decodePointer(control, offset);
+    }
+    if (type === 0) {
+      type = 7 + this.buffer[offset++];
+    }
+
+    let size = control & 0x1f;
+    if (size >= 29) {
+      const extra = size - 28;
+      const value = this.buffer.readUIntBE(offset, extra);
+      offset += extra;
+      size = [29, 285, 65821][extra - 1] + value;
+    }
+
+    return this.decodeValue(type, size, offset);
+  }
+
+  private decodePointer(control: number, offset: number): [MMDBValue, number] {
+    const sizeBits = (control >> 3) & 0x3;
+    const high = control & 0x7;
+    let pointer: number;
+    switch (sizeBits) {
+      case 0:
+        pointer = (high << 8) | this.buffer[offset];
+        break;
+      case 1:
+        pointer = ((high << 16) | this.buffer.readUInt16BE(offset)) + 2048;
+        break;
+      case 2:
+        pointer = high * 0x1000000 + this.buffer.readUIntBE(offset, 3) + 526336;
+        break;
+      default:
+        pointer = this.buffer.readUInt32BE(offset);
+    }
+    const [value] = this.decode(this.base + pointer);
+    return [value, offset + sizeBits + 1];
+  }
+
+  private decodeValue(
+    type: number,
+    size: number,
+    offset: number,
+  ): [MMDBValue, number] {
+    const end = offset + size;
+    switch (type) {
+      case 2:
+        return [this.buffer.toString("utf8", offset, end), end];
+      case 3:
+        return [this.buffer.readDoubleBE(offset), end];
+      case 4:
+        return [this.buffer.subarray(offset, end), end];
+      case 5:
+      case 6:
+        return [size === 0 ? 0 : this.buffer.readUIntBE(offset, size), end];
+      case 7: {
+        const map: { [key: string]: MMDBValue } = {};
+        for (let i = 0; i < size; i++) {
+          const [key, afterKey] = this.decode(offset);
+          const [value, afterValue] = this.decode(afterKey);
+          map[key as string] = value;
+          offset = afterValue;
+        }
+        return [map, offset];
+      }
+      case 8: {
+        // Shorter int32 values are zero-padded on the left, so only a full
+        // 4-byte value can be negative
+        const value = size === 0 ? 0 : this.buffer.readUIntBE(offset, size);
+        return [size === 4 ? value | 0 : value, end];
+      }
+      case 9:
+      case 10: {
+        let value = 0n;
+        for (let i = offset; i < end; i++) {
+          value = (value << 8n) | BigInt(this.buffer[i]);
+        }
+        return [value, end];
+      }
+      case 11: {
+        const array: MMDBValue[] = [];
+        for (let i = 0; i < size; i++) {
+          const [value, next] = this.decode(offset);
+          array.push(value);
+          offset = next;
+        }
+        return [array, offset];
+      }
+      case 14:
+        return [size !== 0, offset];
+      case 15:
+        return [this.buffer.readFloatBE(offset), end];
+      default:
+        throw new InvalidInputError(`Unsupported MaxMind DB data type ${type}`);
+    }
+  }
+}
+
+/**
+ * Reads the metadata map at the end of the file
+ */
+function readMetadata(path: string, buffer: Buffer): MMDBMetadata {
+  const searchStart = Math.max(0, buffer.length - METADATA_MAX_SIZE);
+  const markerAt = buffer.lastIndexOf(METADATA_MARKER);
+  if (markerAt < searchStart || markerAt === -1) {
+    throw new InvalidInputError(
+      `Not a MaxMind DB file: ${path}`,
+      "Expected a .mmdb database such as GeoLite2-City.mmdb or GeoLite2-ASN.mmdb",
+    );
+  }
+
+  const start = markerAt + METADATA_MARKER.length;
+  const [raw] = new Decoder(buffer, start).decode(start);
+  const metadata = raw as { [key: string]: MMDBValue };
+  return {
+    databaseType: metadata.database_type as string,
+    ipVersion: metadata.ip_version as number,
+    nodeCount: metadata.node_count as number,
+    recordSize: metadata.record_size as number,
+    buildEpoch: Number(metadata.build_epoch),
+  };
+}
+
+/**
+ * Opens a MaxMind DB file; readers are cached by path
+ */
+export function openMMDB(path: string): MMDBReader {
+  const cached = readers.get(path);
+  if (cached) {
+    return cached;
+  }
+
+  let buffer: Buffer;
+  try {
+    buffer = readFileSync(path);
+  } catch (error) {
+    throw new InvalidInputError(
+      `Cannot read MaxMind database: ${path} (${(error as NodeJS.ErrnoException).code ?? "unreadable"})`,
+    );
+  }
+
+  const metadata = readMetadata(path, buffer);
+  const { nodeCount, recordSize } = metadata;
+  if (![24, 28, 32].includes(recordSize)) {
+    throw new InvalidInputError(
+      `Unsupported MaxMind DB record size ${recordSize}: ${path}`,
+    );
+  }
+
+  const nodeBytes = (recordSize * 2) / 8;
+  const dataStart = nodeCount * nodeBytes + DATA_SECTION_SEPARATOR;
+  const decoder = new Decoder(buffer, dataStart);
+
+  const record = (node: number, bit: number): number => {
+    const offset = node * nodeBytes;
+    if (recordSize === 24) {
+      return buffer.readUIntBE(offset + bit * 3, 3);
+    }
+    if (recordSize === 32) {
+      return buffer.readUInt32BE(offset + bit * 4);
+    }
+    // 28-bit records share the middle byte's nibbles
+    const middle = buffer[offset + 3];
+    return bit === 0
+      ? ((middle & 0xf0) << 20) | buffer.readUIntBE(offset, 3)
+      : ((middle & 0x0f) << 24) | buffer.readUIntBE(offset + 4, 3);
+  };
+
+  // IPv4 addresses live under ::/96 in an IPv6 tree
+  let ipv4Start = 0;
+  if (metadata.ipVersion === 6) {
+    for (let i = 0; i < 96 && ipv4Start < nodeCount; i++) {
+      ipv4Start = record(ipv4Start, 0);
+    }
+  }
+
+  const reader: MMDBReader = {
+    path,
+    metadata,
+    get: (ip) => {
+      if (ip.version === 6 && metadata.ipVersion === 4) {
+        return null;
+      }
+
+      const bits = bitLength(ip.version);
+      let node = ip.version === 4 ? ipv4Start : 0;
+      for (let i = bits - 1; i >= 0 && node < nodeCount; i--) {
+        node = record(node, Number((ip.value >> BigInt(i)) & 1n));
+      }
+
+      if (node <= nodeCount) {
+        return null;
+      }
+      const [value] = decoder.decode(dataStart + node - nodeCount - 16);
+      return value;
+    },
+  };
+  readers.set(path, reader);
+  return reader;
+}
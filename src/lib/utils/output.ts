@@ -0,0 +1,385 @@
+/**
+ * Output formatting shared by every command.
+ *
+ * The root program selects a format with --format (or --json); commands build
+ * a plain data object and hand it to printStructured() whenever the format is
+ * not the default human-readable text.
+ */
+
+import { EXIT_CODES, IPNavError } from "@/lib/utils/errors.js";
+
+export const OUTPUT_FORMATS = ["text", "json", "yaml", "csv", "table"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export type Scalar = string | number | bigint | boolean | null | undefined;
+
+export type OutputRecord = Record<string, Scalar | Scalar[]>;
+
+let currentFormat: OutputFormat = "text";
+
+/**
+ * Sets the output format for the current invocation
+ */
+export function setOutputFormat(format: OutputFormat): void {
+  currentFormat = format;
+}
+
+/**
+ * Returns the output format for the current invocation
+ */
+export function getOutputFormat(): OutputFormat {
+  return currentFormat;
+}
+
+/**
+ * True when a machine-readable format (anything but text) was requested
+ */
+export function isStructuredOutput(): boolean {
+  return currentFormat !== "text";
+}
+
+/**
+ * Integers that fit in a double stay numbers; larger ones (IPv6 counts and
+ * values) become strings so no precision is lost
+ */
+function normalizeScalar(value: Scalar): string | number | boolean | null {
+  if (typeof value === "bigint") {
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) &&
+      value >= BigInt(Number.MIN_SAFE_INTEGER)
+      ? Number(value)
+      : value.toString();
+  }
+  return value === undefined ? null : value;
+}
+
+function normalizeRecord(
+  record: object,
+): Record<string, string | number | boolean | null | Array<unknown>> {
+  const normalized: Record<
+    string,
+    string | number | boolean | null | Array<unknown>
+  > = {};
+  for (const [key, value] of Object.entries(record as OutputRecord)) {
+    normalized[key] = Array.isArray(value)
+      ? value.map(normalizeScalar)
+      : normalizeScalar(value);
+  }
+  return normalized;
+}
+
+function toText(value: unknown): string {
+  if (value === null) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    return value.map(toText).join(" ");
+  }
+  return String(value);
+}
+
+function yamlScalar(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (typeof value !== "string") {
+    return String(value);
+  }
+  // Quote anything YAML could read as another type or as structure
+  return /^[A-Za-z_./-][A-Za-z0-9_./-]*$/.test(value) &&
+    !/^(true|false|null|yes|no|on|off|~)$/i.test(value)
+    ? value
+    : JSON.stringify(value);
+}
+
+function yamlRecord(record: Record<string, unknown>, indent: string): string[] {
+  return Object.entries(record).map(([key, value]) => {
+    if (Array.isArray(value)) {
+      return value.length === 0
+        ? `${indent}${key}: []`
+        : `${indent}${key}:\n${value.map((item) => `${indent}  - ${yamlScalar(item)}`).join("\n")}`;
+    }
+    return `${indent}${key}: ${yamlScalar(value)}`;
+  });
+}
+
+/**
+ * One record as an item of a YAML list
+ */
+function yamlListItem(row: Record<string, unknown>): string {
+  return yamlRecord(row, "  ").join("\n").replace(/^ {2}/, "- ");
+}
+
+function csvField(value: unknown): string {
+  const text = toText(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function tableLine(values: string[], widths: number[]): string {
+  return values
+    .map((value, i) => value.padEnd(widths[i]))
+    .join("  ")
+    .trimEnd();
+}
+
+function columnsOf(rows: Record<string, unknown>[]): string[] {
+  const columns: string[] = [];
+  rows.forEach((row) =>
+    Object.keys(row).forEach((key) => {
+      if (!columns.includes(key)) {
+        columns.push(key);
+      }
+    }),
+  );
+  return columns;
+}
+
+/**
+ * Renders one record or a list of records in the given structured format.
+ * Records are flat objects whose fields are scalars or lists of scalars.
+ */
+export function renderStructured(
+  data: object | object[],
+  format: Exclude<OutputFormat, "text">,
+): string {
+  const rows = (Array.isArray(data) ? data : [data]).map(normalizeRecord);
+
+  switch (format) {
+    case "json":
+      return JSON.stringify(Array.isArray(data) ? rows : rows[0], null, 2);
+
+    case "yaml":
+      if (!Array.isArray(data)) {
+        return yamlRecord(rows[0], "").join("\n");
+      }
+      return rows.length === 0 ? "[]" : rows.map(yamlListItem).join("\n");
+
+    case "csv": {
+      const columns = columnsOf(rows);
+      return [
+        columns.join(","),
+        ...rows.map((row) =>
+          columns.map((column) => csvField(row[column] ?? null)).join(","),
+        ),
+      ].join("\n");
+    }
+
+    case "table": {
+      const columns = columnsOf(rows);
+      const cells = rows.map((row) =>
+        columns.map((column) => toText(row[column] ?? null)),
+      );
+      const widths = columns.map((column, i) =>
+        Math.max(column.length, ...cells.map((row) => row[i].length)),
+      );
+      return [
+        tableLine(columns, widths),
+        tableLine(
+          widths.map((width) => "─".repeat(width)),
+          widths,
+        ),
+        ...cells.map((row) => tableLine(row, widths)),
+      ].join("\n");
+    }
+  }
+}
+
+/**
+ * Renders a record as a single line of JSON (for JSON Lines streams)
+ */
+export function renderJSONLine(record: object): string {
+  return JSON.stringify(normalizeRecord(record));
+}
+
+/**
+ * Renders a record as one CSV row with the given column order
+ */
+export function renderCSVRow(record: object, columns: string[]): string {
+  const row = normalizeRecord(record);
+  return columns.map((column) => csvField(row[column] ?? null)).join(",");
+}
+
+/**
+ * Prints data in the selected structured format
+ */
+export function printStructured(data: object | object[]): void {
+  const format = currentFormat === "text" ? "json" : currentFormat;
+  console.log(renderStructured(data, format));
+}
+
+/** Rows the table format measures before it starts printing a stream */
+const TABLE_SAMPLE_ROWS = 1000;
+
+/**
+ * Prints a list of records in the selected structured format one record at
+ * a time, so lists of any length stream in constant memory. The output is
+ * the same as printStructured() gives for the whole list, except that table
+ * columns are sized from the first rows only.
+ */
+export async function printStructuredStream(
+  rows: Iterable<object>,
+): Promise<void> {
+  const format = currentFormat === "text" ? "json" : currentFormat;
+  const iterator = rows[Symbol.iterator]();
+
+  // CSV and table columns come from the first rows
+  const head: object[] = [];
+  let next = iterator.next();
+  while (!next.done && head.length < TABLE_SAMPLE_ROWS) {
+    head.push(next.value);
+    next = iterator.next();
+  }
+  if (next.done) {
+    await writeLine(renderStructured(head, format));
+    return;
+  }
+  const following = next.value;
+  function* all(): Generator<Record<string, unknown>> {
+    yield* head.map(normalizeRecord);
+    yield normalizeRecord(following);
+    for (let row = iterator.next(); !row.done; row = iterator.next()) {
+      yield normalizeRecord(row.value);
+    }
+  }
+
+  switch (format) {
+    case "json": {
+      // Each item is written once the next one shows it needs a comma
+      await writeLine("[");
+      let previous: string | null = null;
+      for (const row of all()) {
+        if (previous !== null) {
+          await writeLine(`${previous},`);
+        }
+        previous = JSON.stringify(row, null, 2).replace(/^/gm, "  ");
+      }
+      await writeLine(`${previous}`);
+      await writeLine("]");
+      return;
+    }
+
+    case "yaml":
+      for (const row of all()) {
+        await writeLine(yamlListItem(row));
+      }
+      return;
+
+    case "csv": {
+      const columns = columnsOf(head.map(normalizeRecord));
+      await writeLine(columns.join(","));
+      for (const row of all()) {
+        await writeLine(
+          columns.map((column) => csvField(row[column] ?? null)).join(","),
+        );
+      }
+      return;
+    }
+
+    case "table": {
+      const sample = head.map(normalizeRecord);
+      const columns = columnsOf(sample);
+      const widths = columns.map((column) =>
+        Math.max(
+          column.length,
+          ...sample.map((row) => toText(row[column] ?? null).length),
+        ),
+      );
+      await writeLine(tableLine(columns, widths));
+      await writeLine(
+        tableLine(
+          widths.map((width) => "─".repeat(width)),
+          widths,
+        ),
+      );
+      for (const row of all()) {
+        await writeLine(
+          tableLine(
+            columns.map((column) => toText(row[column] ?? null)),
+            widths,
+          ),
+        );
+      }
+      return;
+    }
+  }
+}
+
+let handlesClosedPipe = false;
+
+/**
+ * Writes a line to stdout, waiting for the stream to drain when its buffer
+ * is full so long outputs do not pile up in memory. A reader that goes away
+ * early (e.g. `| head`) ends the process quietly.
+ */
+export async function writeLine(line: string): Promise<void> {
+  if (!handlesClosedPipe) {
+    handlesClosedPipe = true;
+    process.stdout.on("error", (error: NodeJS.ErrnoException) => {
+      if (error.code !== "EPIPE") {
+        throw error;
+      }
+      process.exit(0);
+    });
+  }
+
+  if (!process.stdout.write(`${line}\n`)) {
+    await new Promise<void>((resolve) => process.stdout.once("drain", resolve));
+  }
+}
+
+/**
+ * Extracts a readable message from an unknown thrown value
+ */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Writes an error message and its hints to stderr. In JSON mode the error is
+ * written as a JSON object carrying the error type.
+ */
+export function printError(
+  message: string,
+  hints: string[] = [],
+  type = "Error",
+): void {
+  if (currentFormat === "json") {
+    console.error(
+      JSON.stringify({
+        error: { type, message, ...(hints.length > 0 ? { hints } : {}) },
+      }),
+    );
+  } else {
+    console.error(`❌ ${message}`);
+    hints.forEach((hint) => console.error(hint));
+  }
+}
+
+/**
+ * Reports an error and exits with the status it carries
+ */
+export function fail(error: IPNavError): never {
+  printError(error.message, error.hints, error.name);
+  process.exit(error.exitCode);
+}
+
+/**
+ * Reports an error caught in a command action and exits. Errors from the
+ * library API already read as user-facing messages and carry their own
+ * hints and exit status; anything else is an internal error and is prefixed
+ * with what the command was doing.
+ */
+export function reportError(error: unknown, context: string): never {
+  fail(
+    error instanceof IPNavError
+      ? error
+      : new IPNavError(`${context}: ${errorMessage(error)}`),
+  );
+}
+
+/**
+ * Ends a predicate command with its answer as the exit status
+ */
+export function exitWithAnswer(answer: boolean): never {
+  process.exit(answer ? EXIT_CODES.success : EXIT_CODES.predicateFalse);
+}
@@ -0,0 +1,94 @@
+/**
+ * Seeded pseudo-random numbers for reproducible test data.
+ *
+ * The seed string is hashed with cyrb128 into the 128-bit state of an sfc32
+ * generator, so the same seed always yields the same sequence. Neither is
+ * cryptographically secure; only the default seed comes from the system's
+ * secure source.
+ */
+
+import { randomInt } from "crypto";
+
+/** Returns the next 32-bit unsigned integer of a sequence */
+export type RandomSource = () => number;
+
+/**
+ * Hashes a string into four 32-bit words
+ */
+function cyrb128(text: string): [number, number, number, number] {
+  let h1 = 1779033703;
+  let h2 = 3144134277;
+  let h3 = 1013904242;
+  let h4 = 2773480762;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ code, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ code, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ code, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ code, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  h1 ^= h2 ^ h3 ^ h4;
+  h2 ^= h1;
+  h3 ^= h1;
+  h4 ^= h1;
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+}
+
+/**
+ * A fresh seed for callers that did not pass one, printable so the run can
+ * be repeated
+ */
+export function randomSeed(): string {
+  return randomInt(0, 2 ** 48 - 1).toString();
+}
+
+/**
+ * An sfc32 generator seeded from a string
+ */
+export function seededRandom(seed: string): RandomSource {
+  let [a, b, c, d] = cyrb128(seed);
+
+  const next = (): number => {
+    const t = (((a + b) | 0) + d) | 0;
+    d = (d + 1) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) | 0;
+    return t >>> 0;
+  };
+
+  // Discard the first outputs, which still correlate with the seed hash
+  for (let i = 0; i < 15; i++) {
+    next();
+  }
+  return next;
+}
+
+/**
+ * Uniform integer in [0, limit), drawn 32 bits at a time with rejection so
+ * no value is favoured
+ */
+export function randomBelow(random: RandomSource, limit: bigint): bigint {
+  if (limit <= 1n) {
+    return 0n;
+  }
+
+  const bits = (limit - 1n).toString(2).length;
+  const words = Math.ceil(bits / 32);
+  const mask = (1n << BigInt(bits)) - 1n;
+  for (;;) {
+    let value = 0n;
+    for (let i = 0; i < words; i++) {
+      value = (value << 32n) | BigInt(random());
+    }
+    value &= mask;
+    if (value < limit) {
+      return value;
+    }
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Embedded copy of the IANA IPv4 and IPv6 Special-Purpose Address Registries
+ * (https://www.iana.org/assignments/iana-ipv4-special-registry and
+ * https://www.iana.org/assignments/iana-ipv6-special-registry).
+ *
+ * Flags follow the registry columns; null stands for the registry's "N/A".
+ * Multicast space is not part of those registries but is listed here too so
+ * classification never reports it as public unicast.
+ */
+
+import { IPAddress, formatIP, parseIP } from "@/lib/utils/address.js";
+
+import { CIDRBlock, blockEnd, parseCIDR } from "@/lib/utils/cidr.js";
+
+export type SpecialPurposeCategory =
+  | "this-network"
+  | "unspecified"
+  | "private"
+  | "shared"
+  | "loopback"
+  | "link-local"
+  | "protocol"
+  | "translation"
+  | "anycast"
+  | "tunnel"
+  | "discard"
+  | "documentation"
+  | "benchmarking"
+  | "multicast"
+  | "reserved"
+  | "broadcast";
+
+export type AddressType = "public" | "private" | "special";
+
+export interface SpecialPurposeEntry {
+  block: string;
+  name: string;
+  category: SpecialPurposeCategory;
+  rfc: string[];
+  source: boolean | null;
+  destination: boolean | null;
+  forwardable: boolean | null;
+  globallyReachable: boolean | null;
+  reservedByProtocol: boolean | null;
+}
+
+type Flags = [
+  source: boolean | null,
+  destination: boolean | null,
+  forwardable: boolean | null,
+  globallyReachable: boolean | null,
+  reservedByProtocol: boolean | null,
+];
+
+type RawEntry = [
+  block: string,
+  name: string,
+  category: SpecialPurposeCategory,
+  rfc: string[],
+  flags: Flags,
+];
+
+// Columns: block, name, category, RFCs,
+// [source, destination, forwardable, globally reachable, reserved-by-protocol]
+const RAW_REGISTRY: RawEntry[] = [
+  // IPv4
+  ["0.0.0.0/8", '"This network"', "this-network", ["RFC 791"], [true, false, false, false, true]],
+  ["0.0.0.0/32", '"This host on this network"', "this-network", ["RFC 1122"], [true, false, false, false, true]],
+  ["10.0.0.0/8", "Private-Use", "private", ["RFC 1918"], [true, true, true, false, false]],
+  ["100.64.0.0/10", "Shared Address Space", "shared", ["RFC 6598"], [true, true, true, false, false]],
+  ["127.0.0.0/8", "Loopback", "loopback", ["RFC 1122"], [false, false, false, false, true]],
+  ["169.254.0.0/16", "Link Local", "link-local", ["RFC 3927"], [true, true, false, false, true]],
+  ["172.16.0.0/12", "Private-Use", "private", ["RFC 1918"], [true, true, true, false, false]],
+  ["192.0.0.0/24", "IETF Protocol Assignments", "protocol", ["RFC 6890"], [false, false, false, false, false]],
+  ["192.0.0.0/29", "IPv4 Service Continuity Prefix", "translation", ["RFC 7335"], [true, true, true, false, false]],
+  ["192.0.0.8/32", "IPv4 dummy address", "protocol", ["RFC 7600"], [true, false, false, false, false]],
+  ["192.0.0.9/32", "Port Control Protocol Anycast", "anycast", ["RFC 7723"], [true, true, true, true, false]],
+  ["192.0.0.10/32", "Traversal Using Relays around NAT Anycast", "anycast", ["RFC 8155"], [true, true, true, true, false]],
+  ["192.0.0.170/32", "NAT64/DNS64 Discovery", "translation", ["RFC 8880", "RFC 7050"], [false, false, false, false, true]],
+  ["192.0.0.171/32", "NAT64/DNS64 Discovery", "translation", ["RFC 8880", "RFC 7050"], [false, false, false, false, true]],
+  ["192.0.2.0/24", "Documentation (TEST-NET-1)", "documentation", ["RFC 5737"], [false, false, false, false, false]],
+  ["192.31.196.0/24", "AS112-v4", "anycast", ["RFC 7535"], [true, true, true, true, false]],
+  ["192.52.193.0/24", "AMT", "protocol", ["RFC 7450"], [true, true, true, true, false]],
+  ["192.88.99.0/24", "Deprecated (6to4 Relay Anycast)", "reserved", ["RFC 7526"], [null, null, null, null, null]],
+  ["192.168.0.0/16", "Private-Use", "private", ["RFC 1918"], [true, true, true, false, false]],
+  ["192.175.48.0/24", "Direct Delegation AS112 Service", "anycast", ["RFC 7534"], [true, true, true, true, false]],
+  ["198.18.0.0/15", "Benchmarking", "benchmarking", ["RFC 2544"], [true, true, true, false, false]],
+  ["198.51.100.0/24", "Documentation (TEST-NET-2)", "documentation", ["RFC 5737"], [false, false, false, false, false]],
+  ["203.0.113.0/24", "Documentation (TEST-NET-3)", "documentation", ["RFC 5737"], [false, false, false, false, false]],
+  ["224.0.0.0/4", "Multicast", "multicast", ["RFC 5771"], [false, true, true, null, false]],
+  ["240.0.0.0/4", "Reserved", "reserved", ["RFC 1112"], [false, false, false, false, true]],
+  ["255.255.255.255/32", "Limited Broadcast", "broadcast", ["RFC 8190", "RFC 919"], [false, true, false, false, true]],
+
+  // IPv6
+  ["::1/128", "Loopback Address", "loopback", ["RFC 4291"], [false, false, false, false, true]],
+  ["::/128", "Unspecified Address", "unspecified", ["RFC 4291"], [true, false, false, false, true]],
+  ["::ffff:0:0/96", "IPv4-mapped Address", "translation", ["RFC 4291"], [false, false, false, false, true]],
+  ["64:ff9b::/96", "IPv4-IPv6 Translat.", "translation", ["RFC 6052"], [true, true, true, true, false]],
+  ["64:ff9b:1::/48", "IPv4-IPv6 Translat.", "translation", ["RFC 8215"], [true, true, true, false, false]],
+  ["100::/64", "Discard-Only Address Block", "discard", ["RFC 6666"], [true, true, true, false, false]],
+  ["100:0:0:1::/64", "Dummy IPv6 Prefix", "protocol", ["RFC 9780"], [true, false, false, false, false]],
+  ["2001::/23", "IETF Protocol Assignments", "protocol", ["RFC 2928"], [false, false, false, null, false]],
+  ["2001::/32", "TEREDO", "tunnel", ["RFC 4380", "RFC 8190"], [true, true, true, null, false]],
+  ["2001:1::1/128", "Port Control Protocol Anycast", "anycast", ["RFC 7723"], [true, true, true, true, false]],
+  ["2001:1::2/128", "Traversal Using Relays around NAT Anycast", "anycast", ["RFC 8155"], [true, true, true, true, false]],
+  ["2001:1::3/128", "DNS-SD Service Registration Protocol Anycast", "anycast", ["RFC 9665"], [true, true, true, true, false]],
+  ["2001:2::/48", "Benchmarking", "benchmarking", ["RFC 5180"], [true, true, true, false, false]],
+  ["2001:3::/32", "AMT", "protocol", ["RFC 7450"], [true, true, true, true, false]],
+  ["2001:4:112::/48", "AS112-v6", "anycast", ["RFC 7535"], [true, true, true, true, false]],
+  ["2001:20::/28", "ORCHIDv2", "protocol", ["RFC 7343"], [true, true, true, true, false]],
+  ["2001:30::/28", "Drone Remote ID Protocol Entity Tags (DETs) Prefix", "protocol", ["RFC 9374"], [true, true, true, true, false]],
+  ["2001:db8::/32", "Documentation", "documentation", ["RFC 3849"], [false, false, false, false, false]],
+  ["2002::/16", "6to4", "tunnel", ["RFC 3056"], [true, true, true, null, false]],
+  ["2620:4f:8000::/48", "Direct Delegation AS112 Service", "anycast", ["RFC 7534"], [true, true, true, true, false]],
+  ["3fff::/20", "Documentation", "documentation", ["RFC 9637"], [false, false, false, false, false]],
+  ["5f00::/16", "Segment Routing (SRv6) SIDs", "protocol", ["RFC 9602"], [true, true, true, false, false]],
+  ["fc00::/7", "Unique-Local", "private", ["RFC 4193", "RFC 8190"], [true, true, true, false, false]],
+  ["fe80::/10", "Link-Local Unicast", "link-local", ["RFC 4291"], [true, true, false, false, true]],
+  ["ff00::/8", "Multicast", "multicast", ["RFC 4291"], [false, true, true, null, false]],
+];
+
+export const SPECIAL_PURPOSE_REGISTRY: SpecialPurposeEntry[] = RAW_REGISTRY.map(
+  ([block, name, category, rfc, flags]) => ({
+    block,
+    name,
+    category,
+    rfc,
+    source: flags[0],
+    destination: flags[1],
+    forwardable: flags[2],
+    globallyReachable: flags[3],
+    reservedByProtocol: flags[4],
+  }),
+);
+
+let parsedBlocks: CIDRBlock[] | null = null;
+
+/**
+ * Most specific registry entry containing an address, or null for ordinary
+ * unicast space
+ */
+export function lookupSpecialPurpose(
+  ip: IPAddress,
+): SpecialPurposeEntry | null {
+  parsedBlocks ??= SPECIAL_PURPOSE_REGISTRY.map((entry) =>
+    parseCIDR(entry.block),
+  );
+
+  let match: SpecialPurposeEntry | null = null;
+  let matchPrefix = -1;
+  parsedBlocks.forEach((block, idx) => {
+    if (
+      block.network.version === ip.version &&
+      block.prefix > matchPrefix &&
+      ip.value >= block.network.value &&
+      ip.value <= blockEnd(block)
+    ) {
+      match = SPECIAL_PURPOSE_REGISTRY[idx];
+      matchPrefix = block.prefix;
+    }
+  });
+
+  return match;
+}
+
+/**
+ * Coarse classification: private-use space is "private", globally reachable
+ * or unregistered space is "public", and every other registry block is
+ * "special"
+ */
+export function addressType(entry: SpecialPurposeEntry | null): AddressType {
+  if (entry === null) {
+    return "public";
+  }
+  if (entry.category === "private") {
+    return "private";
+  }
+  return entry.globallyReachable === true ? "public" : "special";
+}
+
+/**
+ * First and last address of a registry block, as "start - end"
+ */
+export function entryRange(entry: SpecialPurposeEntry): string {
+  const block = parseCIDR(entry.block);
+  return `${formatIP(block.network)} - ${formatIP({
+    version: block.network.version,
+    value: blockEnd(block),
+  })}`;
+}
+
+/**
+ * Looks up an address string in the registry
+ */
+export function classifyAddress(address: string): {
+  type: AddressType;
+  entry: SpecialPurposeEntry | null;
+} {
+  const entry = lookupSpecialPurpose(parseIP(address));
+  return { type: addressType(entry), entry };
+}
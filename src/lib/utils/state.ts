@@ -0,0 +1,157 @@
+/**
+ * JSON state files shared between ipnav processes.
+ *
+ * Updates hold an exclusive lock file (`<file>.lock`, created with O_EXCL)
+ * for the whole read-modify-write, and the new state is written to a
+ * temporary file and renamed over the old one. Concurrent writers (e.g.
+ * parallel CI jobs) therefore queue up instead of losing each other's
+ * changes, and readers never see a half-written file.
+ */
+
+import {
+  Stats,
+  closeSync,
+  existsSync,
+  linkSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+  writeSync,
+} from "fs";
+import { dirname } from "path";
+
+import { InvalidInputError } from "@/lib/utils/errors.js";
+
+/** How long an update waits for another process to release the lock */
+const LOCK_TIMEOUT_MS = 10_000;
+
+const LOCK_RETRY_MS = 50;
+
+/** A lock older than this was left behind by a crashed process */
+const STALE_LOCK_MS = 60_000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Removes a lock left behind by a crashed process. Another process may
+ * replace the lock between the staleness check and the removal, so the lock
+ * is renamed aside first (atomically) and only deleted once it is known to
+ * be the stale file; a fresh lock moved by mistake is linked back, which
+ * never overwrites a lock created in the meantime.
+ */
+function breakStaleLock(lockFile: string, stale: Stats): void {
+  const aside = `${lockFile}.${process.pid}.stale`;
+  renameSync(lockFile, aside);
+
+  const moved = statSync(aside);
+  if (moved.ino !== stale.ino || moved.mtimeMs !== stale.mtimeMs) {
+    try {
+      linkSync(aside, lockFile);
+    } catch {
+      // Another lock already took its place
+    }
+  }
+  unlinkSync(aside);
+}
+
+/**
+ * Creates the lock file, waiting while another process holds it
+ */
+async function acquireLock(lockFile: string): Promise<void> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    try {
+      const fd = openSync(lockFile, "wx");
+      writeSync(fd, `${process.pid}\n`);
+      closeSync(fd);
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw new InvalidInputError(
+          `Cannot lock state file: ${lockFile} (${(error as NodeJS.ErrnoException).code ?? "unwritable"})`,
+        );
+      }
+    }
+
+    try {
+      const lock = statSync(lockFile);
+      if (Date.now() - lock.mtimeMs > STALE_LOCK_MS) {
+        breakStaleLock(lockFile, lock);
+        continue;
+      }
+    } catch {
+      // Released (or broken by another process) between our attempt and
+      // the check; try again right away
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new InvalidInputError(
+        `Timed out waiting for the lock on ${lockFile}`,
+        "Another ipnav process is updating the state file; remove the lock file if none is running",
+      );
+    }
+    await sleep(LOCK_RETRY_MS);
+  }
+}
+
+/**
+ * Reads a state file, or returns the initial state when it does not exist
+ */
+export function readState<T>(file: string, initial: () => T): T {
+  if (!existsSync(file)) {
+    return initial();
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(file, "utf-8");
+  } catch (error) {
+    throw new InvalidInputError(
+      `Cannot read state file: ${file} (${(error as NodeJS.ErrnoException).code ?? "unreadable"})`,
+    );
+  }
+
+  try {
+    return JSON.parse(content) as T;
+  } catch {
+    throw new InvalidInputError(
+      `State file is not valid JSON: ${file}`,
+      "Fix or remove the file to start over",
+    );
+  }
+}
+
+/**
+ * Applies an update to a state file under its lock. The update changes the
+ * state in place and returns the result for the caller; nothing is written
+ * when it throws.
+ */
+export async function updateState<T, R>(
+  file: string,
+  initial: () => T,
+  update: (state: T) => R,
+): Promise<R> {
+  mkdirSync(dirname(file), { recursive: true });
+  const lockFile = `${file}.lock`;
+  await acquireLock(lockFile);
+
+  try {
+    const state = readState(file, initial);
+    const result = update(state);
+
+    const tempFile = `${file}.${process.pid}.tmp`;
+    writeFileSync(tempFile, `${JSON.stringify(state, null, 2)}\n`);
+    renameSync(tempFile, file);
+    return result;
+  } finally {
+    unlinkSync(lockFile);
+  }
+}